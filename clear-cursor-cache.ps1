@@ -6,7 +6,7 @@ $ErrorActionPreference = "Continue"
 Write-Host ""
 Write-Host "=== Cursor cache & state pruning ===" -ForegroundColor Cyan
 Write-Host ""
-Write-Host "Choose what to do (Cursor must be closed for options 1, 2, 3, 4):" -ForegroundColor White
+Write-Host "Choose what to do (Cursor must be closed for options 1, 2, 3, 4, 6):" -ForegroundColor White
 Write-Host ""
 Write-Host "  1. Full cache cleanup" -ForegroundColor Yellow
 Write-Host "     Kills Cursor, then deletes: Cache, CachedData, Code Cache, GPUCache, logs," -ForegroundColor Gray
@@ -32,8 +32,12 @@ $choice = Read-Host "
      Lists tables and top keys by size so you can see what uses the 800+ MB.
      Impact: None. Read-only report. Run with Cursor closed for accurate size.
 
-Enter 1, 2, 3, 4, or 5 (or press Enter to cancel)"
-if ($choice -notmatch '^[1-5]$') { Write-Host "No option selected. Exiting." -ForegroundColor Cyan; exit 0 }
+  6. Remove stale workspaceStorage entries
+     Lists workspaceStorage folders of projects that no longer exist, then deletes them after you confirm.
+     Impact: Only deleted projects lose their workspace state. Live projects are left intact.
+
+Enter 1, 2, 3, 4, 5, or 6 (or press Enter to cancel)"
+if ($choice -notmatch '^[1-6]$') { Write-Host "No option selected. Exiting." -ForegroundColor Cyan; exit 0 }
 
 $scriptRoot = $PSScriptRoot
 $projectRoot = Split-Path $scriptRoot -Parent
@@ -89,26 +93,36 @@ switch ($choice) {
       Write-Host "  5) agentKv:blob:%  (cursorDiskKV) - agent/blob cache" -ForegroundColor Gray
       Write-Host "  6) cursor.composer%  (ItemTable) - small UI state" -ForegroundColor Gray
       Write-Host "  7) Exit" -ForegroundColor Gray
-      $sub = Read-Host "Choose 1-7 (or Enter to skip)"
+      Write-Host "  8) Other key family  (any pattern from the ""Key families"" list above)" -ForegroundColor Gray
+      $sub = Read-Host "Choose 1-8 (or Enter to skip)"
       if ($sub -eq '7' -or $sub -eq '') { break }
-      if ($sub -match '^[1-6]$') {
+      if ($sub -match '^[1-68]$') {
         if ($sub -eq '1') {
           & npx tsx scripts/prune-state-vscdb.ts --count-categories
           if ($LASTEXITCODE -ne 0) { Write-Host "Count script error. Ensure Cursor is closed and sqlite3 is installed." -ForegroundColor Yellow }
         } else {
         $table = if ($sub -eq '6') { 'ItemTable' } else { 'cursorDiskKV' }
         $pattern = switch ($sub) { '2' { 'bubbleId:%' }; '3' { 'checkpointId:%' }; '4' { 'composerData:%' }; '5' { 'agentKv:blob:%' }; '6' { 'cursor.composer%' }; default { $null } }
+        if ($sub -eq '8') {
+          $pattern = (Read-Host "Pattern from the Key families list (e.g. codeBlockDiff:%)").Trim()
+          if ((Read-Host "Table: (C)ursorDiskKV or (I)temTable? [C/I]") -match '^[Ii]') { $table = 'ItemTable' }
+          if (-not $pattern) { $pattern = $null }
+        }
         if ($pattern) {
-          $confirm = Read-Host "You are about to prune: $pattern ($table). Are you sure? [Y/N]"
-          if ($confirm -match '^[Yy]') {
           $ak = Read-Host "Delete (A)ll matching items, or (K)eep last N items? [A/K]"
           $keepLast = $null
           if ($ak -match '^[Kk]') {
             $nStr = Read-Host "Keep how many items? (e.g. 100)"
             $n = 0; if ([int]::TryParse($nStr.Trim(), [ref]$n) -and $n -gt 0) { $keepLast = $n }
           }
-          $argList = @('--analyze', '--table', $table, '--delete-keys', $pattern)
+          $argList = @('--analyze', '--table', $table, '--delete-keys', $pattern, '--yes')
           if ($null -ne $keepLast) { $argList += '--keep-last'; $argList += $keepLast }
+          $previewArgs = @('--table', $table, '--delete-keys', $pattern, '--dry-run')
+          if ($null -ne $keepLast) { $previewArgs += '--keep-last'; $previewArgs += $keepLast }
+          & npx tsx scripts/prune-state-vscdb.ts @previewArgs
+          if ($LASTEXITCODE -ne 0) { Write-Host "Dry run error. Ensure sqlite3 is installed." -ForegroundColor Yellow }
+          $confirm = Read-Host "You are about to prune: $pattern ($table) as listed above. Are you sure? [Y/N]"
+          if ($confirm -match '^[Yy]') {
           Write-Host "Running: npx tsx scripts/prune-state-vscdb.ts $($argList -join ' ')" -ForegroundColor Yellow
           & npx tsx scripts/prune-state-vscdb.ts @argList
           if ($LASTEXITCODE -ne 0) { Write-Host "Prune/delete error. Ensure Cursor is closed and sqlite3 is installed." -ForegroundColor Yellow }
@@ -124,6 +138,19 @@ switch ($choice) {
       } while ($true)
     } finally { Pop-Location }
   }
+  "6" {
+    Write-Host ""; Write-Host "Remove stale workspaceStorage entries" -ForegroundColor Cyan
+    Set-Location $projectRoot
+    & npx tsx "$scriptRoot\prune-state-vscdb.ts" --clean-workspaces
+    if ($LASTEXITCODE -ne 0) { Write-Host "Could not list workspaceStorage entries." -ForegroundColor Yellow }
+    else {
+      $confirm = Read-Host "Delete the stale workspace folders listed above? [Y/N]"
+      if ($confirm -match '^[Yy]') {
+        & npx tsx "$scriptRoot\prune-state-vscdb.ts" --clean-workspaces --yes
+        if ($LASTEXITCODE -ne 0) { Write-Host "Some folders could not be deleted. Ensure Cursor is closed." -ForegroundColor Yellow }
+      } else { Write-Host "Cleanup cancelled." -ForegroundColor Yellow }
+    }
+  }
 }
 Write-Host ""
 
@@ -0,0 +1,318 @@
+/**
+ * Fixture tests for the write operations of prune-state-vscdb.ts. Each test builds a small Cursor profile in a temp
+ * folder (User/globalStorage/state.vscdb) and runs the library functions, or the CLI for --restore and the dry-run
+ * listing, against it. Uses node:sqlite when available (Node 22+), else the sqlite3 CLI, like the script itself.
+ *
+ * Run: npx tsx --test scripts/prune-state-vscdb.test.ts
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync, spawnSync } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { closeSync, existsSync, mkdirSync, mkdtempSync, openSync, readFileSync, readdirSync, rmSync, writeSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  analyzeDatabase,
+  deleteKeys,
+  deleteOrphanRows,
+  exportComposerSessions,
+  pruneComposerSessions,
+  repairDatabaseFile,
+  slimValues,
+} from './prune-state-vscdb';
+
+const SCRIPT = join(__dirname, 'prune-state-vscdb.ts');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Composer sessions of the fixture, oldest first. DEAD has rows but no composerData: its rows are orphans. */
+const SESSIONS = ['0000000a', '0000000b', '0000000c', '0000000d'].map((n) => `${n}-0000-4000-8000-000000000000`);
+const DEAD = '000000ff-0000-4000-8000-000000000000';
+
+interface Row {
+  table: 'ItemTable' | 'cursorDiskKV';
+  key: string;
+  value: string;
+}
+
+type SqliteModule = { DatabaseSync: new (path: string) => { exec(sql: string): void; prepare(sql: string): { all(): unknown[] }; close(): void } };
+
+function loadNodeSqlite(): SqliteModule | null {
+  try {
+    return require('node:sqlite') as SqliteModule;
+  } catch {
+    return null;
+  }
+}
+
+const nodeSqlite = loadNodeSqlite();
+
+function exec(filePath: string, sql: string): void {
+  if (nodeSqlite) {
+    const db = new nodeSqlite.DatabaseSync(filePath);
+    try {
+      db.exec(sql);
+    } finally {
+      db.close();
+    }
+    return;
+  }
+  execFileSync('sqlite3', ['-bail', filePath], { input: sql });
+}
+
+function query<T>(filePath: string, sql: string): T[] {
+  if (nodeSqlite) {
+    const db = new nodeSqlite.DatabaseSync(filePath);
+    try {
+      return db.prepare(sql).all() as T[];
+    } finally {
+      db.close();
+    }
+  }
+  const out = execFileSync('sqlite3', ['-json', filePath, sql], { encoding: 'utf-8' }).trim();
+  return out ? (JSON.parse(out) as T[]) : [];
+}
+
+function keys(filePath: string, table: Row['table'] = 'cursorDiskKV'): string[] {
+  return query<{ key: string }>(filePath, `SELECT key FROM ${table} ORDER BY rowid;`).map((r) => r.key);
+}
+
+function md5(filePath: string): string {
+  return createHash('md5').update(readFileSync(filePath)).digest('hex');
+}
+
+const quote = (text: string) => `'${text.replace(/'/g, "''")}'`;
+
+function sessionRows(composerId: string, createdAt: number, i: number): Row[] {
+  const bubble = (n: number) => ({
+    bubbleId: `b${i}${n}`,
+    text: `message ${n} of chat ${i}`,
+    createdAt: new Date(createdAt + n * 60_000).toISOString(),
+    images: [{ data: 'i'.repeat(4000) }],
+    toolResults: [{ result: '😀'.repeat(1000) }],
+  });
+  return [
+    { table: 'cursorDiskKV', key: `bubbleId:${composerId}:b1`, value: JSON.stringify(bubble(1)) },
+    { table: 'cursorDiskKV', key: `bubbleId:${composerId}:b2`, value: JSON.stringify(bubble(2)) },
+    { table: 'cursorDiskKV', key: `checkpointId:${composerId}:c1`, value: JSON.stringify({ files: [] }) },
+    { table: 'cursorDiskKV', key: `agentKv:checkpoint:${composerId}:1`, value: 'k'.repeat(500) },
+  ];
+}
+
+/** A profile with SESSIONS (10, 8, 6 and 4 days old), orphaned rows of DEAD and ItemTable keys with LIKE wildcards in them. */
+function createProfile(dir: string): string {
+  const globalDir = join(dir, 'User', 'globalStorage');
+  mkdirSync(globalDir, { recursive: true });
+  const filePath = join(globalDir, 'state.vscdb');
+  const now = Date.now();
+  const rows: Row[] = [];
+  SESSIONS.forEach((composerId, i) => {
+    const createdAt = now - (10 - 2 * i) * DAY_MS;
+    rows.push(...sessionRows(composerId, createdAt, i));
+    rows.push({
+      table: 'cursorDiskKV',
+      key: `composerData:${composerId}`,
+      value: JSON.stringify({ composerId, name: `Chat ${i}`, createdAt, lastUpdatedAt: createdAt + 3_600_000 }),
+    });
+  });
+  rows.push(...sessionRows(DEAD, now - 20 * DAY_MS, 9));
+  rows.push({ table: 'cursorDiskKV', key: `agentKv:blob:${'ab'.repeat(16)}`, value: 'b'.repeat(500) });
+  rows.push({
+    table: 'ItemTable',
+    key: 'composer.composerData',
+    value: JSON.stringify({ allComposers: SESSIONS.map((composerId) => ({ composerId })) }),
+  });
+  for (const key of ['my_ext.cache', 'myXext.cache', '50%off.x', 'workbench.panel']) rows.push({ table: 'ItemTable', key, value: '{"v":1}' });
+
+  exec(
+    filePath,
+    [
+      'CREATE TABLE ItemTable (key TEXT UNIQUE ON CONFLICT REPLACE, value BLOB);',
+      'CREATE TABLE cursorDiskKV (key TEXT UNIQUE ON CONFLICT REPLACE, value BLOB);',
+      ...rows.map((r) => `INSERT INTO ${r.table} (key, value) VALUES (${quote(r.key)}, ${quote(r.value)});`),
+    ].join('\n')
+  );
+  return filePath;
+}
+
+/** Run the CLI on the fixture profile; cwd is the temp folder so no project .vscode/.cursor database is picked up. */
+function runCli(dir: string, args: string[]): { status: number | null; stdout: string } {
+  const result = spawnSync(process.execPath, [...process.execArgv, SCRIPT, '--user-data-dir', dir, ...args], {
+    cwd: dir,
+    encoding: 'utf-8',
+    timeout: 60_000,
+  });
+  return { status: result.status, stdout: `${result.stdout}${result.stderr}` };
+}
+
+let dir: string;
+let globalPath: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'prune-state-vscdb-'));
+  globalPath = createProfile(dir);
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('deleteKeys', () => {
+  it('changes nothing with dryRun', () => {
+    const before = md5(globalPath);
+    const result = deleteKeys(globalPath, 'bubbleId:%', { table: 'cursorDiskKV', keepLast: 2, dryRun: true });
+    assert.equal(result.deleted, 8);
+    assert.equal(result.backupId, null);
+    assert.equal(md5(globalPath), before);
+  });
+
+  it('keeps the last keepLast rows and takes a backup', () => {
+    const result = deleteKeys(globalPath, 'bubbleId:%', { table: 'cursorDiskKV', keepLast: 2 });
+    assert.equal(result.matched, 10);
+    assert.equal(result.deleted, 8);
+    assert.ok(result.backupId);
+    assert.deepEqual(keys(globalPath).filter((k) => k.startsWith('bubbleId:')), [
+      `bubbleId:${DEAD}:b1`,
+      `bubbleId:${DEAD}:b2`,
+    ]);
+  });
+
+  it('matches _ and % literally when escaped', () => {
+    assert.equal(deleteKeys(globalPath, 'my\\_ext%').deleted, 1);
+    assert.equal(deleteKeys(globalPath, '50\\%%').deleted, 1);
+    assert.deepEqual(keys(globalPath, 'ItemTable').sort(), ['composer.composerData', 'myXext.cache', 'workbench.panel']);
+  });
+
+  it('matches exactly the keys counted for each discovered key family', () => {
+    for (const family of analyzeDatabase(globalPath).keyFamilies) {
+      const preview = deleteKeys(globalPath, family.pattern, { table: family.table, dryRun: true });
+      assert.equal(preview.matched, family.count, `${family.pattern} (${family.table})`);
+    }
+  });
+
+  it('lists the last activity of the kept rows in a --keep-last --older-than dry run', () => {
+    const newest = query<{ createdAt: number }>(
+      globalPath,
+      `SELECT json_extract(value, '$.lastUpdatedAt') AS createdAt FROM cursorDiskKV WHERE key = 'composerData:${SESSIONS[3]}';`
+    )[0].createdAt;
+    const { status, stdout } = runCli(dir, [
+      '--delete-keys', 'composerData:%', '--table', 'cursorDiskKV', '--keep-last', '1', '--older-than', '1d', '--dry-run',
+    ]);
+    assert.equal(status, 0, stdout);
+    const kept = stdout.slice(stdout.indexOf('Would keep'));
+    assert.ok(kept.includes(new Date(newest).toISOString().slice(0, 19).replace('T', ' ')), stdout);
+  });
+});
+
+describe('pruneComposerSessions', () => {
+  it('changes nothing with dryRun', () => {
+    const before = md5(globalPath);
+    const result = pruneComposerSessions(globalPath, { keepSessions: 1, dryRun: true });
+    assert.deepEqual(result.toDelete.map((s) => s.composerId).sort(), SESSIONS.slice(0, 3));
+    assert.equal(md5(globalPath), before);
+  });
+
+  it('deletes every row of the old sessions, agentKv included, and drops them from the sidebar', () => {
+    const result = pruneComposerSessions(globalPath, { olderThan: new Date(Date.now() - 7 * DAY_MS) });
+    assert.deepEqual(result.toDelete.map((s) => s.composerId).sort(), SESSIONS.slice(0, 2));
+    assert.equal(result.deletedRows, 10);
+    const left = keys(globalPath);
+    for (const composerId of SESSIONS.slice(0, 2)) assert.ok(!left.some((k) => k.includes(composerId)), composerId);
+    for (const composerId of SESSIONS.slice(2)) assert.equal(left.filter((k) => k.includes(composerId)).length, 5, composerId);
+    const [sidebar] = query<{ value: string }>(globalPath, "SELECT CAST(value AS TEXT) AS value FROM ItemTable WHERE key = 'composer.composerData';");
+    assert.deepEqual(
+      (JSON.parse(sidebar.value) as { allComposers: { composerId: string }[] }).allComposers.map((c) => c.composerId),
+      SESSIONS.slice(2)
+    );
+  });
+});
+
+describe('deleteOrphanRows', () => {
+  it('deletes the rows of sessions without composerData, agentKv included, but not unattributed blobs', () => {
+    const result = deleteOrphanRows(globalPath);
+    assert.equal(result.deleted, 4);
+    const left = keys(globalPath);
+    assert.ok(!left.some((k) => k.includes(DEAD)));
+    assert.ok(left.includes(`agentKv:blob:${'ab'.repeat(16)}`));
+    assert.equal(left.length, SESSIONS.length * 5 + 1);
+  });
+});
+
+describe('slimValues', () => {
+  const bubble = (filePath: string) =>
+    JSON.parse(
+      query<{ value: string }>(filePath, `SELECT CAST(value AS TEXT) AS value FROM cursorDiskKV WHERE key = 'bubbleId:${SESSIONS[0]}:b1';`)[0].value
+    ) as { text: string; images: unknown[]; toolResults: { result: string }[] };
+
+  it('only empties the configured fields by default', () => {
+    const result = slimValues(globalPath, 'bubbleId:%');
+    assert.equal(result.stats.changedRows, 10);
+    const slimmed = bubble(globalPath);
+    assert.deepEqual(slimmed.images, []);
+    assert.equal(slimmed.text, 'message 1 of chat 0');
+    assert.equal(slimmed.toolResults[0].result, '😀'.repeat(1000));
+  });
+
+  it('truncates other strings with maxFieldKb without splitting a character', () => {
+    slimValues(globalPath, 'bubbleId:%', { fields: [], maxFieldKb: 1 });
+    const result = bubble(globalPath).toolResults[0].result;
+    const kept = result.slice(0, result.indexOf('…'));
+    assert.equal(kept, '😀'.repeat(256));
+    assert.ok(!result.includes('�'));
+  });
+});
+
+describe('repairDatabaseFile', () => {
+  it('leaves a healthy database alone', () => {
+    const before = md5(globalPath);
+    const result = repairDatabaseFile(globalPath);
+    assert.equal(result.damaged, false);
+    assert.equal(result.backupId, null);
+    assert.equal(md5(globalPath), before);
+  });
+
+  it('rebuilds a database with a damaged page from its readable rows', () => {
+    exec(
+      globalPath,
+      Array.from({ length: 300 }, (_, i) => `INSERT INTO cursorDiskKV (key, value) VALUES ('filler:${i}', '${'f'.repeat(2000)}');`).join('\n')
+    );
+    const [{ page_size: pageSize }] = query<{ page_size: number }>(globalPath, 'PRAGMA page_size;');
+    const [{ page_count: pageCount }] = query<{ page_count: number }>(globalPath, 'PRAGMA page_count;');
+    const fd = openSync(globalPath, 'r+');
+    writeSync(fd, Buffer.alloc(200, 0xff), 0, 200, Math.floor(pageCount / 2) * pageSize);
+    closeSync(fd);
+
+    const result = repairDatabaseFile(globalPath);
+    assert.equal(result.damaged, true);
+    assert.equal(result.error, null);
+    assert.equal(result.repaired, true);
+    assert.equal(result.check, 'ok');
+    assert.equal(query<{ integrity_check: string }>(globalPath, 'PRAGMA integrity_check;')[0].integrity_check, 'ok');
+    assert.ok(keys(globalPath).includes(`composerData:${SESSIONS[0]}`));
+  });
+});
+
+describe('--restore', () => {
+  it('puts back the rows of a backup', () => {
+    const { backupId } = deleteKeys(globalPath, 'composerData:%', { table: 'cursorDiskKV' });
+    assert.ok(backupId);
+    assert.ok(!keys(globalPath).some((k) => k.startsWith('composerData:')));
+    const { status, stdout } = runCli(dir, ['--restore', backupId]);
+    assert.equal(status, 0, stdout);
+    assert.equal(keys(globalPath).filter((k) => k.startsWith('composerData:')).length, SESSIONS.length);
+  });
+});
+
+describe('exportComposerSessions', () => {
+  it('writes every conversation without changing the database', () => {
+    const before = md5(globalPath);
+    const out = join(dir, 'export');
+    const result = exportComposerSessions(globalPath, out);
+    assert.equal(result.sessions, SESSIONS.length);
+    assert.equal(result.messages, SESSIONS.length * 2);
+    assert.ok(existsSync(join(out, 'index.md')));
+    assert.equal(readdirSync(out).filter((f) => f.endsWith('.json') && f !== 'index.json').length, SESSIONS.length);
+    assert.equal(md5(globalPath), before);
+  });
+});
@@ -7,46 +7,344 @@
  * which reclaims space from deleted/old entries without affecting active settings.
  * 
  * Usage:
+ *   npx tsx scripts/prune-state-vscdb.ts <command> [options]    (commands: analyze, count, prune, delete, check)
+ *   npx tsx scripts/prune-state-vscdb.ts <command> --help
+ *   npx tsx scripts/prune-state-vscdb.ts prune --global --threshold 0
+ *   npx tsx scripts/prune-state-vscdb.ts delete "bubbleId:%" --table cursorDiskKV --keep-last 100 [--dry-run]
  *   npx tsx scripts/prune-state-vscdb.ts [--workspace] [--global] [--threshold 50]
  *   npx tsx scripts/prune-state-vscdb.ts --analyze
+ *   npx tsx scripts/prune-state-vscdb.ts --interactive [--dry-run]
+ *   npx tsx scripts/prune-state-vscdb.ts --list-installations
+ *   npx tsx scripts/prune-state-vscdb.ts --product code --analyze
+ *   npx tsx scripts/prune-state-vscdb.ts --user-data-dir ~/cursor-profiles/work --count-categories
+ *   npx tsx scripts/prune-state-vscdb.ts --analyze-workspaces
+ *   npx tsx scripts/prune-state-vscdb.ts --discover-keys [--depth 3]
+ *   npx tsx scripts/prune-state-vscdb.ts --count-categories --record
+ *   npx tsx scripts/prune-state-vscdb.ts --trend [--threshold 1024]
+ *   npx tsx scripts/prune-state-vscdb.ts --diff 20250101-120000000-global global [--depth 1]
+ *   npx tsx scripts/prune-state-vscdb.ts --clean-workspaces [--older-than 90d] [--yes]
+ *   npx tsx scripts/prune-state-vscdb.ts --clean-caches light [--dry-run]
  *   npx tsx scripts/prune-state-vscdb.ts --analyze --delete-keys "cursor.composer%"
  *   npx tsx scripts/prune-state-vscdb.ts --analyze --table cursorDiskKV --delete-keys "bubbleId:%"
+ *   npx tsx scripts/prune-state-vscdb.ts --analyze --table cursorDiskKV --delete-keys "bubbleId:%" --keep-last 100 --dry-run
+ *   npx tsx scripts/prune-state-vscdb.ts --analyze --table cursorDiskKV --delete-keys "bubbleId:%" --older-than 30d
+ *   npx tsx scripts/prune-state-vscdb.ts --prune-sessions --keep-sessions 20 [--older-than 30d] [--dry-run]
+ *   npx tsx scripts/prune-state-vscdb.ts --analyze --find-orphans
+ *   npx tsx scripts/prune-state-vscdb.ts --delete-orphans [--dry-run]
+ *   npx tsx scripts/prune-state-vscdb.ts --apply-policy retention.json [--dry-run]
+ *   npx tsx scripts/prune-state-vscdb.ts --target-size 200 [--priority "agentKv:blob:%,checkpointId:%,bubbleId:%"] [--dry-run]
+ *   npx tsx scripts/prune-state-vscdb.ts --field-sizes "bubbleId:%"
+ *   npx tsx scripts/prune-state-vscdb.ts --slim "bubbleId:%" [--slim-fields "images,toolFormerData.result"] [--max-field-kb 16] [--dry-run]
+ *   npx tsx scripts/prune-state-vscdb.ts --export-sessions ~/cursor-chats
+ *   npx tsx scripts/prune-state-vscdb.ts --prune-sessions --keep-sessions 20 --archive ~/cursor-chats
  *   npx tsx scripts/prune-state-vscdb.ts --check-integrity [--global-only]
+ *   npx tsx scripts/prune-state-vscdb.ts --repair
+ *   npx tsx scripts/prune-state-vscdb.ts --list-backups
+ *   npx tsx scripts/prune-state-vscdb.ts --restore 20250101-120000000-global
  *
  * Options:
  *   --workspace       Prune workspace-specific state.vscdb (default: true)
- *   --global          Prune global state.vscdb (default: false)
- *   --threshold       Size threshold in MB to trigger pruning (default: 50)
+ *   --global          Prune only global state.vscdb (default: false; with --workspace, every state.vscdb)
+ *   --threshold       Size threshold in MB to trigger pruning (default: 50); with --trend, the size to project towards
+ *   --product NAME    Work on this editor's default profile: cursor, code, code-insiders or vscodium
+ *                     (default: the first one found, Cursor first).
+ *   --user-data-dir P Work on the profile in P (the folder passed to the editor's --user-data-dir; it contains User/).
+ *   --list-installations Show every detected editor profile with its global and workspace DB sizes. Read-only.
  *   --analyze         Report what is using space in global state.vscdb (no pruning)
+ *   --interactive     Guided pruning of the global DB (option 5 of clear-cursor-cache.ps1, on any OS): shows the category
+ *                     counts, asks which categories to prune and whether to keep the last N of each, shows the rows / MB each
+ *                     would free and the projected size after VACUUM, confirms, deletes and loops. Needs a terminal.
+ *                     Supports --dry-run, --keep-backups, --archive.
+ *   --discover-keys   Group all ItemTable / cursorDiskKV keys by prefix (split after ':' and '.') into a ranked tree of key
+ *                     families with rows and MB; families the known categories do not cover are marked NEW. Each family is a
+ *                     LIKE pattern usable with --delete-keys. Also part of --analyze. Read-only.
+ *   --depth N         Prefix depth for key families (default: 2).
+ *   --analyze-workspaces Rank every workspaceStorage state.vscdb by size, with the project folder from its workspace.json and
+ *                     its table sizes and top keys. Read-only.
+ *   --clean-workspaces List workspaceStorage entries whose project folder / workspace file is gone (or, with --older-than,
+ *                     not used since the cutoff) with their sizes. Deletes those directories only with --yes.
+ *   --yes             Confirm the deletion for --clean-workspaces, and a --delete-keys run without --keep-last / --older-than
+ *                     (which deletes every matching key). Without it such a run asks in a terminal and fails elsewhere.
+ *   --clean-caches L  Delete the editor's cache folders, listing each with its size first. light: Cache, CachedData, Code Cache,
+ *                     GPUCache, logs; full: also User/workspaceStorage and User/History. Works on Windows, macOS and Linux for
+ *                     the installation chosen with --product / --user-data-dir. Requires the editor closed. Supports --dry-run.
  *   --check-integrity Run SQLite PRAGMA quick_check + integrity_check (global DB by default; use --global-only for global only).
+ *   --repair          Rebuild a corrupt global state.vscdb: copy it as-is to the backups, salvage every readable ItemTable /
+ *                     cursorDiskKV row into a new database with the same schema, report recovered/lost rows per table and
+ *                     swap the new file in only if its integrity_check passes. Requires Cursor closed.
  *   --global-only     With --check-integrity: check only global state.vscdb (default: check global + workspace + all workspaceStorage).
  *   --table           Table to delete from when using --delete-keys: ItemTable (default) or cursorDiskKV
  *   --delete-keys     Delete keys matching SQL LIKE pattern; then VACUUM. Requires Cursor closed.
  *   --keep-last N     With --delete-keys: keep the last N matching items (by rowid), delete the rest. Omit to delete all.
+ *   --older-than AGE  With --delete-keys: only delete items last active before AGE ago (30d, 12h, 2w) or a date (2025-01-31).
+ *                     Uses createdAt/lastUpdatedAt in the JSON value (or the owning composerData session's); items with no
+ *                     timestamp are reported and kept. Can be combined with --keep-last.
+ *   --prune-sessions  Delete whole Composer conversations (composerData + their bubbles, checkpoints, ...) instead of loose rows.
+ *                     Needs --keep-sessions N and/or --older-than AGE; supports --dry-run.
+ *   --keep-sessions N With --prune-sessions: keep the N most recent conversations (by composerData timestamps).
+ *   --find-orphans    Report bubbleId/checkpointId/agentKv rows whose composerData session is gone (count and MB per category).
+ *                     Read-only; with --analyze it is added to the analysis report.
+ *   --delete-orphans  Delete only orphaned rows, then VACUUM. Supports --dry-run.
+ *   --apply-policy F  Validate the JSON retention policy F (per-pattern keepLast / maxAge / maxTotalMb / neverTouch rules for the
+ *                     global and/or workspace DBs), print the plan and execute it. Supports --dry-run. See README "Retention policy".
+ *   --target-size MB  Shrink the global DB to about MB: delete the oldest rows (by rowid) of the --priority categories, one
+ *                     category at a time, until the projected size after VACUUM fits. Reports rows/MB removed per category.
+ *                     Fails without changes if the target cannot be reached. Supports --dry-run.
+ *   --priority LIST   With --target-size: comma-separated category patterns in deletion order
+ *                     (default: agentKv:blob:%,checkpointId:%,bubbleId:%).
+ *   --field-sizes PAT Parse the JSON values of keys matching PAT (--table, default cursorDiskKV) and list which fields account
+ *                     for the bytes (MB, % and rows per field path, e.g. codeBlocks[].content), marking what --slim does. Read-only.
+ *   --slim PAT        Shrink the values of keys matching PAT in place instead of deleting rows: empty the --slim-fields (and,
+ *                     with --max-field-kb, truncate other long strings), then VACUUM. Keys and JSON structure stay, so
+ *                     conversations remain readable. Supports --dry-run, --archive.
+ *   --slim-fields LIST With --slim / --field-sizes: comma-separated field paths to empty, or "none" (default: images,
+ *                     attachedCodeChunks, codebaseContextChunks, relevantFiles, recentlyViewedFiles, fileDiffTrajectories,
+ *                     diffsSinceLastApply, interpreterResults, consoleLogs).
+ *   --max-field-kb N  With --slim: also truncate every other string longer than N KB (text / richText are kept whole).
+ *                     Off unless given.
+ *   --export-sessions DIR Write every Composer conversation to DIR as <composerId>.md (readable) and <composerId>.json
+ *                     (lossless: composerData and every bubble as stored), plus index.md / index.json. Read-only on the database.
+ *   --archive DIR     With --delete-keys, --prune-sessions, --delete-orphans, --target-size, --apply-policy, --slim or
+ *                     --interactive: export every conversation that loses its composerData or a bubble (or, with --slim, bubble
+ *                     content) to DIR first.
+ *                     Re-archiving a conversation merges it with its earlier export, so messages deleted in between are kept.
+ *   --json            Print one versioned JSON document on stdout instead of tables (analyze, analyze-workspaces, count-categories, discover-keys, trend,
+ *                     diff, check-integrity, VACUUM pruning). Progress messages go to stderr. See README "JSON output".
+ *   --dry-run         With --delete-keys: list every key that would be deleted/kept (rowid, size) and the projected size after VACUUM.
+ *                     With --prune-sessions / --delete-orphans: list the sessions / orphans instead. Changes nothing; --analyze is optional in this mode.
  *   --count-categories Show item counts for the 5 categories (bubbleId:%, checkpointId:%, composerData:%, agentKv:blob:%, cursor.composer%). Read-only.
+ *   --record          With --analyze / --count-categories: append every state.vscdb's size and the global DB's category
+ *                     counts/bytes to <globalStorage>/state.vscdb.history.jsonl.
+ *   --trend           Report growth per database and per category (MB/week) from the recorded runs, and when each database
+ *                     reaches --threshold MB at that rate. Read-only.
+ *   --diff OLD NEW    Compare two snapshots of a state.vscdb key by key: added, removed, grown and shrunk keys with their MB per
+ *                     table, known category and key family (--depth), and the biggest single changes. OLD / NEW is a path (live
+ *                     file, copy or .bak), a backup ID (see --list-backups) or "global" for the live global DB. Read-only.
+ *   --keep-backups N  Number of snapshots to keep per database; older ones are removed after each new backup (default: 5).
+ *   --list-backups    List snapshots taken before --delete-keys / VACUUM for every state.vscdb. Read-only.
+ *   --restore ID      Restore a snapshot by ID (see --list-backups). The current file is backed up first. Requires Cursor closed.
+ *
+ * Each command is the same operation as its flag form (analyze = --analyze, count = --count-categories, prune = VACUUM,
+ * delete <pattern> = --delete-keys <pattern>, check = --check-integrity); the other operations are flags only. Unknown
+ * commands or options, missing or invalid values, options that do not apply to the operation and two operations in one
+ * run are errors (exit code 1) instead of being ignored.
+ *
+ * Exit codes: 0 success, 1 error (including invalid command-line usage), 2 integrity check failed, 3 no state.vscdb found.
+ *
+ * Every write (--delete-keys, --prune-sessions, --delete-orphans, --apply-policy, --target-size, --slim, --interactive, VACUUM) first takes a consistent snapshot with VACUUM INTO, stored next to the
+ * database in <state.vscdb>.backups/. Before that, writes are refused while another process (Cursor) holds a lock on the
+ * database or left an unfinished transaction in its -journal; a leftover -wal is flushed. Sizes include -wal/-journal.
+ *
+ * Library use: import discoverDatabases, analyzeDatabase, countCategories, diffDatabases, checkDatabases, pruneDatabases or
+ * deleteKeys from this file; they return typed results, report progress through an onProgress callback and print nothing (see README).
+ *
+ * SQLite access is in-process via node:sqlite (Node.js 22.13+); on older Node versions the sqlite3 CLI is used instead.
  */
 
-import { existsSync, statSync, readdirSync } from 'fs';
-import { join } from 'path';
-import { execSync } from 'child_process';
+import { existsSync, statSync, readdirSync, readFileSync, writeFileSync, appendFileSync, rmSync, mkdirSync, copyFileSync, renameSync, unlinkSync, openSync, readSync, closeSync } from 'fs';
+import { join, basename, dirname, resolve } from 'path';
+import { execFileSync } from 'child_process';
 import { homedir } from 'os';
+import { fileURLToPath } from 'url';
 
 const ALLOWED_TABLES = ['ItemTable', 'cursorDiskKV'] as const;
 type TableName = (typeof ALLOWED_TABLES)[number];
 
+const DEFAULT_KEEP_BACKUPS = 5;
+
+/** Version of the --json document layout. Bumped when a field is removed or changes meaning; new fields may be added. */
+const JSON_SCHEMA_VERSION = 1;
+
+/** Process exit codes (with and without --json). */
+const EXIT_OK = 0;
+const EXIT_ERROR = 1;
+const EXIT_INTEGRITY_FAILED = 2;
+const EXIT_NOT_FOUND = 3;
+
+/** Thrown when the requested installation or database does not exist; reported with EXIT_NOT_FOUND, not EXIT_ERROR. */
+class NotFoundError extends Error {
+  name = 'NotFoundError';
+}
+
+/** Receives one progress line at a time from the long-running operations (safety check, backup, delete, VACUUM). */
+export type ProgressCallback = (message: string) => void;
+
+/** The CLI's progress sink: the console. Library calls pass the caller's onProgress instead, or drop the lines. */
+const logProgress: ProgressCallback = (message) => console.log(message);
+
 interface PruneOptions {
   workspace: boolean;
   global: boolean;
   thresholdMb: number;
   analyze: boolean;
+  analyzeWorkspaces: boolean;
+  cleanWorkspaces: boolean;
+  applyPolicy: string | null;
+  targetSizeMb: number | null;
+  priority: string[];
+  exportSessions: string | null;
+  discoverKeys: boolean;
+  /** Append this --analyze / --count-categories run's sizes and category counts to the history file (see --trend). */
+  record: boolean;
+  trend: boolean;
+  /** Guided category pruning with prompts (see runInteractive). */
+  interactive: boolean;
+  /** Old and new snapshot for --diff: paths, backup IDs or "global" (see resolveDiffSource). */
+  diff: [string, string] | null;
+  repair: boolean;
+  /** Editor to work on (a PRODUCTS key); null = first detected. */
+  product: string | null;
+  userDataDir: string | null;
+  listInstallations: boolean;
+  /** Cache folders to delete (see CACHE_DIRS); null = none. */
+  cleanCaches: CacheLevel | null;
+  /** Key pattern whose JSON values --field-sizes breaks down by field. */
+  fieldSizes: string | null;
+  /** Key pattern whose JSON values --slim shrinks in place. */
+  slimPattern: string | null;
+  /** Fields --slim empties (see DEFAULT_SLIM_FIELDS). */
+  slimFields: string[];
+  /** Other strings --slim truncates to this many KB; null (the default) truncates nothing. */
+  maxFieldKb: number | null;
+  /** Prefix depth for key families (--discover-keys and --analyze). */
+  familyDepth: number;
+  /** Folder that conversations are exported to before a delete removes them (see archiveConversations). */
+  archiveDir: string | null;
+  /** Confirms a --clean-workspaces deletion; without it the command only reports. */
+  yes: boolean;
   checkIntegrity: boolean;
   globalOnlyIntegrity: boolean;
   countCategories: boolean;
   deleteKeysPattern: string | null;
   deleteTable: TableName;
   keepLast: number | null;
+  keepBackups: number;
+  listBackups: boolean;
+  restoreId: string | null;
+  dryRun: boolean;
+  olderThan: Date | null;
+  pruneSessions: boolean;
+  keepSessions: number | null;
+  findOrphans: boolean;
+  deleteOrphans: boolean;
+  json: boolean;
 }
 
+/** Subcommands; each runs one operation (see COMMAND_ACTIONS). The flag-only form (e.g. --analyze) still works. */
+const COMMANDS = ['analyze', 'count', 'prune', 'delete', 'check'] as const;
+type Command = (typeof COMMANDS)[number];
+
+/** Operation each command runs, as the key of ACTION_OPTIONS ("prune" is the VACUUM run, which has no flag of its own). */
+const COMMAND_ACTIONS: Record<Command, string> = {
+  analyze: '--analyze',
+  count: '--count-categories',
+  prune: 'prune',
+  delete: '--delete-keys',
+  check: '--check-integrity',
+};
+
+/** Options every operation accepts. */
+const COMMON_OPTIONS = ['--product', '--user-data-dir', '--help', '-h'];
+
+/**
+ * Flags that select an operation, each with the options it accepts. Any other option is an error instead of being ignored,
+ * and so are two operations in one run; only --analyze (before --delete-keys) and --find-orphans (with --analyze) combine.
+ */
+const ACTION_OPTIONS: Record<string, string[]> = {
+  prune: ['--workspace', '--global', '--threshold', '--keep-backups', '--json'],
+  '--analyze': ['--find-orphans', '--depth', '--record', '--json'],
+  '--count-categories': ['--record', '--json'],
+  '--delete-keys': ['--table', '--keep-last', '--older-than', '--dry-run', '--yes', '--archive', '--keep-backups'],
+  '--check-integrity': ['--global-only', '--json'],
+  '--analyze-workspaces': ['--json'],
+  '--discover-keys': ['--depth', '--json'],
+  '--trend': ['--threshold', '--json'],
+  '--diff': ['--depth', '--json'],
+  '--prune-sessions': ['--keep-sessions', '--older-than', '--dry-run', '--keep-backups', '--archive'],
+  '--find-orphans': [],
+  '--delete-orphans': ['--dry-run', '--keep-backups', '--archive'],
+  '--apply-policy': ['--dry-run', '--keep-backups', '--archive'],
+  '--target-size': ['--priority', '--dry-run', '--keep-backups', '--archive'],
+  '--interactive': ['--dry-run', '--keep-backups', '--archive'],
+  '--export-sessions': [],
+  '--clean-workspaces': ['--older-than', '--yes', '--dry-run'],
+  '--clean-caches': ['--dry-run'],
+  '--field-sizes': ['--table', '--slim-fields', '--max-field-kb'],
+  '--slim': ['--table', '--slim-fields', '--max-field-kb', '--dry-run', '--keep-backups', '--archive'],
+  '--repair': ['--keep-backups'],
+  '--list-installations': [],
+  '--list-backups': [],
+  '--restore': ['--keep-backups'],
+};
+
+const USAGE = 'npx tsx scripts/prune-state-vscdb.ts';
+
+const COMMAND_HELP: Record<Command, string> = {
+  analyze: `Usage: ${USAGE} analyze [--find-orphans] [--depth N] [--record] [--json]
+
+Report what is using space in the global state.vscdb: tables, top keys and key families. Read-only.
+
+  --find-orphans  Add the rows whose Composer session is gone (count and MB per category).
+  --depth N       Prefix depth for key families (default: 2).
+  --record        Append the sizes and category counts to the history file (see --trend).
+  --json          Print one JSON document instead of tables.`,
+  count: `Usage: ${USAGE} count [--record] [--json]
+
+Show item counts and sizes for the bubbleId, checkpointId, composerData, agentKv:blob and cursor.composer categories. Read-only.
+
+  --record        Append the sizes and category counts to the history file (see --trend).
+  --json          Print one JSON document instead of tables.`,
+  prune: `Usage: ${USAGE} prune [--workspace] [--global] [--threshold MB] [--keep-backups N] [--json]
+
+VACUUM state.vscdb files larger than the threshold to reclaim free space. No data is deleted.
+
+  --workspace     Every state.vscdb: project, workspaceStorage and global (the default).
+  --global        Only the global state.vscdb (with --workspace: both, i.e. every state.vscdb).
+  --threshold MB  Only databases at least this large (default: 50; 0 = all).
+  --keep-backups N Snapshots to keep per database (default: 5).
+  --json          Print one JSON document instead of tables.`,
+  delete: `Usage: ${USAGE} delete <pattern> [--table ItemTable|cursorDiskKV] [--keep-last N] [--older-than AGE]
+       [--dry-run] [--yes] [--archive DIR] [--keep-backups N]
+
+Delete the global state.vscdb keys matching the SQL LIKE pattern (e.g. "bubbleId:%"), then VACUUM. Requires Cursor closed.
+
+  --table T       Table to delete from: ItemTable (default) or cursorDiskKV.
+  --keep-last N   Keep the last N matching items (by rowid) and delete the rest.
+  --older-than AGE Only delete items last active before AGE ago (30d, 12h, 2w) or a date (2025-01-31).
+  --dry-run       List what would be deleted and kept, and the size after VACUUM. Changes nothing.
+  --yes           Confirm deleting every matching key (no --keep-last / --older-than). Asked for when run in a
+                  terminal; required otherwise.
+  --archive DIR   Export affected conversations to DIR first.
+  --keep-backups N Snapshots to keep (default: 5).`,
+  check: `Usage: ${USAGE} check [--global-only] [--json]
+
+Run SQLite quick_check and integrity_check on every state.vscdb. Exit code 2 if any fails.
+
+  --global-only   Check only the global state.vscdb.
+  --json          Print one JSON document instead of tables.`,
+};
+
+const GENERAL_HELP = `Usage: ${USAGE} <command> [options]
+
+Commands:
+  analyze   Report what is using space in the global state.vscdb (read-only)
+  count     Item counts and sizes per category (read-only)
+  prune     VACUUM state.vscdb files to reclaim free space
+  delete    Delete keys matching a LIKE pattern, then VACUUM
+  check     SQLite integrity check
+
+Other operations: --interactive, --analyze-workspaces, --discover-keys, --trend, --diff, --prune-sessions, --find-orphans,
+--delete-orphans, --apply-policy, --target-size, --field-sizes, --slim, --export-sessions, --clean-workspaces, --clean-caches,
+--repair, --list-installations, --list-backups, --restore. The commands' flag form (--analyze, --count-categories, --delete-keys, --check-integrity, or
+no operation for VACUUM) works too. Every option is described at the top of prune-state-vscdb.ts and in the README.
+
+Options for every operation: --product NAME, --user-data-dir PATH, --help.
+Run "${USAGE} <command> --help" for a command's options.`;
+
+/**
+ * Parse the command line. Unknown commands and options, missing or invalid values, options that do not apply to the
+ * operation and combined operations print an error and exit with EXIT_ERROR; --help prints usage and exits.
+ */
 function parseArgs(): PruneOptions {
   const args = process.argv.slice(2);
   const options: PruneOptions = {
@@ -54,47 +352,220 @@ function parseArgs(): PruneOptions {
     global: false,
     thresholdMb: 50,
     analyze: false,
+    analyzeWorkspaces: false,
+    cleanWorkspaces: false,
+    applyPolicy: null,
+    targetSizeMb: null,
+    priority: DEFAULT_TARGET_PRIORITY,
+    exportSessions: null,
+    discoverKeys: false,
+    record: false,
+    trend: false,
+    diff: null,
+    interactive: false,
+    repair: false,
+    product: null,
+    userDataDir: null,
+    listInstallations: false,
+    cleanCaches: null,
+    fieldSizes: null,
+    slimPattern: null,
+    slimFields: DEFAULT_SLIM_FIELDS,
+    maxFieldKb: null,
+    familyDepth: DEFAULT_FAMILY_DEPTH,
+    archiveDir: null,
+    yes: false,
     checkIntegrity: false,
     globalOnlyIntegrity: false,
     countCategories: false,
     deleteKeysPattern: null,
     deleteTable: 'ItemTable',
     keepLast: null,
+    keepBackups: DEFAULT_KEEP_BACKUPS,
+    listBackups: false,
+    restoreId: null,
+    dryRun: false,
+    olderThan: null,
+    pruneSessions: false,
+    keepSessions: null,
+    findOrphans: false,
+    deleteOrphans: false,
+    json: false,
   };
 
+  const fail = (message: string): never => {
+    console.error(`${message}\nRun with --help for usage.`);
+    process.exit(EXIT_ERROR);
+  };
+
+  let command: Command | null = null;
+  if (args.length > 0 && !args[0].startsWith('-')) {
+    const name = args.shift() as string;
+    if (!COMMANDS.includes(name as Command)) fail(`Unknown command "${name}". Commands: ${COMMANDS.join(', ')}.`);
+    command = name as Command;
+  }
+
+  const seen: string[] = [];
+  let help = false;
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
-    if (arg === '--workspace') {
+    const value = (): string => {
+      if (i + 1 >= args.length || args[i + 1].startsWith('--')) fail(`${arg} needs a value.`);
+      return args[++i];
+    };
+    const count = (): number => {
+      const raw = value();
+      const n = Number(raw);
+      if (!Number.isInteger(n) || n <= 0) fail(`Invalid ${arg} value "${raw}". Use a whole number greater than 0.`);
+      return n;
+    };
+    if (!arg.startsWith('-')) {
+      if (command !== 'delete' || options.deleteKeysPattern) fail(`Unexpected argument "${arg}".`);
+      options.deleteKeysPattern = arg;
+      continue;
+    }
+    seen.push(arg);
+    if (arg === '--help' || arg === '-h') {
+      help = true;
+    } else if (arg === '--workspace') {
       options.workspace = true;
     } else if (arg === '--global') {
       options.global = true;
     } else if (arg === '--analyze') {
       options.analyze = true;
+    } else if (arg === '--analyze-workspaces') {
+      options.analyzeWorkspaces = true;
+    } else if (arg === '--clean-workspaces') {
+      options.cleanWorkspaces = true;
+    } else if (arg === '--yes') {
+      options.yes = true;
+    } else if (arg === '--target-size') {
+      const raw = value();
+      options.targetSizeMb = Number(raw);
+      if (!(options.targetSizeMb > 0)) fail(`Invalid --target-size value "${raw}". Use a size in MB, e.g. 200.`);
+    } else if (arg === '--priority') {
+      options.priority = value().split(',').map((p) => p.trim()).filter(Boolean);
+      if (options.priority.length === 0) fail('--priority needs at least one pattern.');
+    } else if (arg === '--product') {
+      const raw = value();
+      options.product = raw.toLowerCase();
+      if (!(options.product in PRODUCTS)) fail(`Unknown --product "${raw}". Use one of: ${Object.keys(PRODUCTS).join(', ')}.`);
+    } else if (arg === '--user-data-dir') {
+      options.userDataDir = value();
+    } else if (arg === '--list-installations') {
+      options.listInstallations = true;
+    } else if (arg === '--clean-caches') {
+      const raw = value();
+      const level = raw.toLowerCase();
+      if (level !== 'light' && level !== 'full') fail(`Invalid --clean-caches level "${raw}". Use light or full.`);
+      options.cleanCaches = level as CacheLevel;
+    } else if (arg === '--field-sizes') {
+      options.fieldSizes = value();
+    } else if (arg === '--slim') {
+      options.slimPattern = value();
+    } else if (arg === '--slim-fields') {
+      const raw = value();
+      options.slimFields = raw === 'none' ? [] : raw.split(',').map((f) => f.trim()).filter(Boolean);
+      if (raw !== 'none' && options.slimFields.length === 0) fail('--slim-fields needs field paths, or "none" with --max-field-kb to only truncate.');
+    } else if (arg === '--max-field-kb') {
+      options.maxFieldKb = count();
+    } else if (arg === '--repair') {
+      options.repair = true;
+    } else if (arg === '--record') {
+      options.record = true;
+    } else if (arg === '--trend') {
+      options.trend = true;
+    } else if (arg === '--interactive') {
+      options.interactive = true;
+    } else if (arg === '--diff') {
+      options.diff = [value(), value()];
+    } else if (arg === '--discover-keys') {
+      options.discoverKeys = true;
+    } else if (arg === '--depth') {
+      options.familyDepth = count();
+    } else if (arg === '--export-sessions') {
+      options.exportSessions = value();
+    } else if (arg === '--archive') {
+      options.archiveDir = value();
+    } else if (arg === '--apply-policy') {
+      options.applyPolicy = value();
     } else if (arg === '--check-integrity') {
       options.checkIntegrity = true;
     } else if (arg === '--global-only') {
       options.globalOnlyIntegrity = true;
     } else if (arg === '--count-categories') {
       options.countCategories = true;
-    } else if (arg === '--threshold' && i + 1 < args.length) {
-      options.thresholdMb = parseInt(args[i + 1], 10);
-      i++;
-    } else if (arg === '--table' && i + 1 < args.length) {
-      const t = args[i + 1];
-      if (ALLOWED_TABLES.includes(t as TableName)) {
-        options.deleteTable = t as TableName;
-      }
-      i++;
-    } else if (arg === '--delete-keys' && i + 1 < args.length) {
-      options.deleteKeysPattern = args[i + 1];
-      i++;
-    } else if (arg === '--keep-last' && i + 1 < args.length) {
-      const n = parseInt(args[i + 1], 10);
-      if (n > 0) options.keepLast = n;
-      i++;
+    } else if (arg === '--older-than') {
+      const raw = value();
+      options.olderThan = parseOlderThan(raw);
+      if (!options.olderThan) fail(`Invalid --older-than value "${raw}". Use e.g. 30d, 12h, 2w or 2025-01-31.`);
+    } else if (arg === '--prune-sessions') {
+      options.pruneSessions = true;
+    } else if (arg === '--keep-sessions') {
+      options.keepSessions = count();
+    } else if (arg === '--find-orphans') {
+      options.findOrphans = true;
+    } else if (arg === '--delete-orphans') {
+      options.deleteOrphans = true;
+    } else if (arg === '--json') {
+      options.json = true;
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--list-backups') {
+      options.listBackups = true;
+    } else if (arg === '--restore') {
+      options.restoreId = value();
+    } else if (arg === '--keep-backups') {
+      options.keepBackups = count();
+    } else if (arg === '--threshold') {
+      const raw = value();
+      if (!/^\d+(\.\d+)?$/.test(raw)) fail(`Invalid --threshold value "${raw}". Use a size in MB, e.g. 50 (0 = always).`);
+      options.thresholdMb = Number(raw);
+    } else if (arg === '--table') {
+      const raw = value();
+      if (!ALLOWED_TABLES.includes(raw as TableName)) fail(`Unknown --table "${raw}". Use ${ALLOWED_TABLES.join(' or ')}.`);
+      options.deleteTable = raw as TableName;
+    } else if (arg === '--delete-keys') {
+      options.deleteKeysPattern = value();
+    } else if (arg === '--keep-last') {
+      options.keepLast = count();
+    } else {
+      fail(`Unknown option "${arg}".`);
     }
   }
 
+  if (help) {
+    console.log(command ? COMMAND_HELP[command] : GENERAL_HELP);
+    process.exit(EXIT_OK);
+  }
+
+  // The operation this run performs: the command's, else the one operation flag given (--analyze and --find-orphans
+  // only count when nothing else is), else VACUUM pruning.
+  const actions = seen.filter((flag) => flag in ACTION_OPTIONS);
+  const action = command
+    ? COMMAND_ACTIONS[command]
+    : (actions.find((flag) => flag !== '--analyze' && flag !== '--find-orphans') ??
+      (actions.includes('--analyze') ? '--analyze' : (actions[0] ?? 'prune')));
+  const allowed = [...COMMON_OPTIONS, ...ACTION_OPTIONS[action]];
+  if (!command && action === '--delete-keys') allowed.push('--analyze', ...ACTION_OPTIONS['--analyze']);
+  const described = command ? `the ${command} command` : action === 'prune' ? 'VACUUM pruning' : action;
+  for (const flag of new Set(seen)) {
+    if (flag === action || allowed.includes(flag)) continue;
+    if (!command && flag in ACTION_OPTIONS) fail(`${flag} and ${action} cannot be combined; run them separately.`);
+    fail(`${flag} cannot be used with ${described}.`);
+  }
+
+  if (command === 'analyze') options.analyze = true;
+  if (command === 'count') options.countCategories = true;
+  if (command === 'check') options.checkIntegrity = true;
+  if (options.slimPattern && options.slimFields.length === 0 && options.maxFieldKb == null) {
+    fail('--slim-fields none leaves nothing to slim; add --max-field-kb N to truncate long strings.');
+  }
+  if (command === 'delete' && !options.deleteKeysPattern) fail('delete needs a LIKE pattern, e.g. delete "bubbleId:%" --table cursorDiskKV.');
+  // Large JSON values live in cursorDiskKV, so that is the default table for looking inside them.
+  if ((action === '--field-sizes' || action === '--slim') && !seen.includes('--table')) options.deleteTable = 'cursorDiskKV';
+  // --global alone means the global DB only; --workspace (the default) covers every state.vscdb, the global one included.
+  if (seen.includes('--global') && !seen.includes('--workspace')) options.workspace = false;
   return options;
 }
 
@@ -115,8 +586,8 @@ function getWorkspaceStatePath(): string | null {
   return null;
 }
 
-/** Returns all state.vscdb paths: project, workspaceStorage (each workspace), and global. */
-function getAllStateVscdbPaths(): { path: string; label: string }[] {
+/** Returns all state.vscdb paths: project, workspaceStorage (each workspace) and global of the installation. */
+function getAllStateVscdbPaths(installation: Installation | null): { path: string; label: string }[] {
   const out: { path: string; label: string }[] = [];
   const seen = new Set<string>();
 
@@ -131,82 +602,209 @@ function getAllStateVscdbPaths(): { path: string; label: string }[] {
   if (workspacePath) add(workspacePath, 'Workspace (project) state.vscdb');
 
   // 2) workspaceStorage: each workspace has a state.vscdb
-  const appData = process.env.APPDATA;
-  const home = homedir();
-  const wsDirs: string[] = [];
-  if (appData) {
-    wsDirs.push(
-      join(appData, 'Cursor', 'User', 'workspaceStorage'),
-      join(appData, 'Code', 'User', 'workspaceStorage')
-    );
-  } else {
-    wsDirs.push(
-      join(home, 'AppData', 'Roaming', 'Cursor', 'User', 'workspaceStorage'),
-      join(home, 'AppData', 'Roaming', 'Code', 'User', 'workspaceStorage'),
-      join(home, '.config', 'Cursor', 'User', 'workspaceStorage'),
-      join(home, '.config', 'Code', 'User', 'workspaceStorage'),
-      join(home, 'Library', 'Application Support', 'Cursor', 'User', 'workspaceStorage'),
-      join(home, 'Library', 'Application Support', 'Code', 'User', 'workspaceStorage')
-    );
+  for (const { statePath, label } of getWorkspaceStorageEntries(installation)) add(statePath, label);
+
+  // 3) Global
+  const globalPath = getGlobalStatePath(installation);
+  if (globalPath) add(globalPath, 'Global state.vscdb');
+
+  return out;
+}
+
+/** workspaceStorage directory of the installation (one subfolder per opened workspace, named by hash). */
+function getWorkspaceStorageDirs(installation: Installation | null): string[] {
+  if (!installation) return [];
+  return [join(installation.userDataDir, 'User', 'workspaceStorage')].filter((wsDir) => existsSync(wsDir));
+}
+
+interface WorkspaceStorageEntry {
+  hash: string;
+  dir: string;
+  statePath: string;
+  /** Project folder, .code-workspace file or remote URI from workspace.json; null if it cannot be read. */
+  folder: string | null;
+  label: string;
+}
+
+/** Project folder a workspaceStorage/<hash> belongs to, from the folder (or workspace) URI in its workspace.json. */
+function readWorkspaceFolder(storageDir: string): string | null {
+  try {
+    const json = JSON.parse(readFileSync(join(storageDir, 'workspace.json'), 'utf-8')) as { folder?: unknown; workspace?: unknown };
+    const uri = typeof json.folder === 'string' ? json.folder : typeof json.workspace === 'string' ? json.workspace : null;
+    if (!uri) return null;
+    if (!uri.startsWith('file:')) return decodeURIComponent(uri);
+    try {
+      return fileURLToPath(uri);
+    } catch {
+      return decodeURIComponent(uri.replace(/^file:\/\//, ''));
+    }
+  } catch {
+    return null;
   }
-  for (const wsDir of wsDirs) {
-    if (!existsSync(wsDir)) continue;
+}
+
+/** Every workspaceStorage/<hash>/state.vscdb, with the project folder it belongs to. */
+function getWorkspaceStorageEntries(installation: Installation | null): WorkspaceStorageEntry[] {
+  const out: WorkspaceStorageEntry[] = [];
+  for (const wsDir of getWorkspaceStorageDirs(installation)) {
     try {
       const ids = readdirSync(wsDir, { withFileTypes: true }).filter((d) => d.isDirectory());
       for (const id of ids) {
-        const statePath = join(wsDir, id.name, 'state.vscdb');
-        if (existsSync(statePath)) add(statePath, `WorkspaceStorage/${id.name} state.vscdb`);
+        const dir = join(wsDir, id.name);
+        const statePath = join(dir, 'state.vscdb');
+        if (!existsSync(statePath)) continue;
+        const folder = readWorkspaceFolder(dir);
+        const label = folder ? `Workspace ${folder} (workspaceStorage/${id.name})` : `WorkspaceStorage/${id.name} state.vscdb`;
+        out.push({ hash: id.name, dir, statePath, folder, label });
       }
     } catch {
       // ignore permission or read errors
     }
   }
+  return out;
+}
 
-  // 3) Global
-  const globalPath = getGlobalStatePath();
-  if (globalPath) add(globalPath, 'Global state.vscdb');
+/** Editors that keep state.vscdb under <user data dir>/User; keys are the --product values, values the folder names. */
+const PRODUCTS: Record<string, string> = {
+  cursor: 'Cursor',
+  code: 'Code',
+  'code-insiders': 'Code - Insiders',
+  vscodium: 'VSCodium',
+};
 
-  return out;
+/** One editor profile: the folder an editor was started with as --user-data-dir (or its default one). */
+interface Installation {
+  /** --product value, or "custom" for a --user-data-dir that is not tied to a product. */
+  product: string;
+  name: string;
+  userDataDir: string;
 }
 
-function getGlobalStatePath(): string | null {
+/** Folders holding the editors' default user data dirs: %APPDATA% (Windows), ~/.config (Linux), ~/Library/Application Support (macOS). */
+function getAppDataRoots(): string[] {
   const home = homedir();
-  const appData = process.env.APPDATA; // Windows: C:\Users\<user>\AppData\Roaming
-  const possiblePaths: string[] = [];
-  // Windows: prefer APPDATA so we always hit C:\Users\<user>\AppData\Roaming\Cursor\User\globalStorage\state.vscdb
-  if (appData) {
-    possiblePaths.push(
-      join(appData, 'Cursor', 'User', 'globalStorage', 'state.vscdb'),
-      join(appData, 'Code', 'User', 'globalStorage', 'state.vscdb')
-    );
-  }
-  possiblePaths.push(
-    join(home, 'AppData', 'Roaming', 'Cursor', 'User', 'globalStorage', 'state.vscdb'),
-    join(home, 'AppData', 'Roaming', 'Code', 'User', 'globalStorage', 'state.vscdb'),
-    join(home, '.config', 'Cursor', 'User', 'globalStorage', 'state.vscdb'), // Linux
-    join(home, '.config', 'Code', 'User', 'globalStorage', 'state.vscdb'), // Linux
-    join(home, 'Library', 'Application Support', 'Cursor', 'User', 'globalStorage', 'state.vscdb'), // macOS
-    join(home, 'Library', 'Application Support', 'Code', 'User', 'globalStorage', 'state.vscdb') // macOS
-  );
+  const roots = [
+    process.env.APPDATA,
+    join(home, 'AppData', 'Roaming'),
+    join(home, '.config'),
+    join(home, 'Library', 'Application Support'),
+  ].filter((root): root is string => !!root);
+  return [...new Set(roots)];
+}
 
-  for (const path of possiblePaths) {
-    if (existsSync(path)) {
-      return path;
+/** Every default user data dir that exists, Cursor first. */
+function detectInstallations(): Installation[] {
+  const out: Installation[] = [];
+  for (const [product, name] of Object.entries(PRODUCTS)) {
+    for (const root of getAppDataRoots()) {
+      const userDataDir = join(root, name);
+      if (existsSync(join(userDataDir, 'User')) && !out.some((i) => i.userDataDir === userDataDir)) {
+        out.push({ product, name, userDataDir });
+      }
     }
   }
+  return out;
+}
 
-  return null;
+/**
+ * The installation a command works on: --user-data-dir if given, else the first detected installation of --product,
+ * else the first detected one (Cursor before VS Code); null if none is installed. Throws if the requested one does not exist.
+ */
+function resolveInstallation(product: string | null, userDataDir: string | null): Installation | null {
+  if (product && !(product in PRODUCTS)) throw new Error(`Unknown product "${product}". Use one of: ${Object.keys(PRODUCTS).join(', ')}.`);
+  if (userDataDir) {
+    const dir = resolve(userDataDir);
+    if (!existsSync(join(dir, 'User'))) throw new NotFoundError(`${dir} is not an editor user data dir (it has no User folder).`);
+    return { product: product ?? 'custom', name: product ? PRODUCTS[product] : basename(dir), userDataDir: dir };
+  }
+  const detected = detectInstallations();
+  const installation = product ? (detected.find((i) => i.product === product) ?? null) : (detected[0] ?? null);
+  if (product && !installation) {
+    throw new NotFoundError(`${PRODUCTS[product]} was not found. Run with --list-installations to see what is installed.`);
+  }
+  return installation;
+}
+
+function describeInstallation(installation: Installation): string {
+  return `${installation.name} (${installation.userDataDir})`;
+}
+
+/** Global state.vscdb of the installation. */
+function getGlobalStatePath(installation: Installation | null): string | null {
+  if (!installation) return null;
+  const path = join(installation.userDataDir, 'User', 'globalStorage', 'state.vscdb');
+  return existsSync(path) ? path : null;
+}
+
+/** Print every detected installation (and a --user-data-dir one) with the size of its global and workspace databases. */
+function listInstallations(selected: Installation | null): void {
+  const installations = detectInstallations();
+  if (selected && !installations.some((i) => i.userDataDir === selected.userDataDir)) installations.push(selected);
+  console.log('\n=== Editor installations ===\n');
+  if (installations.length === 0) {
+    console.log(`None found under ${getAppDataRoots().join(', ')}. Use --user-data-dir <path> for a custom location.`);
+    return;
+  }
+  console.log(`${'Product'.padEnd(16)} ${'Global DB (MB)'.padStart(14)} ${'Workspaces'.padStart(10)} ${'Workspace DBs (MB)'.padStart(18)}  User data dir`);
+  for (const installation of installations) {
+    const globalPath = join(installation.userDataDir, 'User', 'globalStorage', 'state.vscdb');
+    const wsDir = join(installation.userDataDir, 'User', 'workspaceStorage');
+    const wsDbs = existsSync(wsDir)
+      ? readdirSync(wsDir).map((hash) => join(wsDir, hash, 'state.vscdb')).filter((p) => existsSync(p))
+      : [];
+    const globalMb = existsSync(globalPath) ? getDbSizeMb(globalPath).toFixed(2) : '-';
+    const wsMb = wsDbs.reduce((sum, p) => sum + getDbSizeMb(p), 0).toFixed(2);
+    const mark = selected && selected.userDataDir === installation.userDataDir ? '*' : ' ';
+    console.log(
+      `${mark}${`${installation.product}`.padEnd(15)} ${globalMb.padStart(14)} ${String(wsDbs.length).padStart(10)} ${wsMb.padStart(18)}  ${installation.userDataDir}`
+    );
+  }
+  console.log('\n* = used by the other commands. Choose another with --product <name> or --user-data-dir <path>.');
+  console.log(`Products: ${Object.keys(PRODUCTS).join(', ')}`);
+}
+
+function getFileSizeBytes(filePath: string): number {
+  return statSync(filePath).size;
 }
 
 function getFileSizeMb(filePath: string): number {
-  const stats = statSync(filePath);
-  return stats.size / (1024 * 1024);
+  return getFileSizeBytes(filePath) / (1024 * 1024);
+}
+
+/** On-disk size of a database: the main file plus its -wal and -journal files, which hold changes not yet in the main file. */
+interface DbFileSizes {
+  mainBytes: number;
+  walBytes: number;
+  journalBytes: number;
+  totalBytes: number;
+}
+
+function getDbFileSizes(filePath: string): DbFileSizes {
+  const sidecarBytes = (suffix: string) => (existsSync(filePath + suffix) ? getFileSizeBytes(filePath + suffix) : 0);
+  const mainBytes = getFileSizeBytes(filePath);
+  const walBytes = sidecarBytes('-wal');
+  const journalBytes = sidecarBytes('-journal');
+  return { mainBytes, walBytes, journalBytes, totalBytes: mainBytes + walBytes + journalBytes };
+}
+
+function getDbSizeMb(filePath: string): number {
+  return getDbFileSizes(filePath).totalBytes / (1024 * 1024);
+}
+
+/** Total size in MB, with the WAL/journal share spelled out when there is one, e.g. "812.40 MB (incl. WAL 64.00 MB)". */
+function formatDbSize(filePath: string): string {
+  const { walBytes, journalBytes, totalBytes } = getDbFileSizes(filePath);
+  const toMb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+  const parts: string[] = [];
+  if (walBytes > 0) parts.push(`WAL ${toMb(walBytes)}`);
+  if (journalBytes > 0) parts.push(`journal ${toMb(journalBytes)}`);
+  return parts.length ? `${toMb(totalBytes)} (incl. ${parts.join(', ')})` : toMb(totalBytes);
 }
 
 function getSqlite3Command(): string {
   let sqlite3Cmd = 'sqlite3';
   try {
-    execSync('sqlite3 --version', { stdio: 'ignore' });
+    execFileSync(sqlite3Cmd, ['--version'], { stdio: 'ignore' });
     return sqlite3Cmd;
   } catch {
     const winPaths = [
@@ -218,358 +816,4481 @@ function getSqlite3Command(): string {
       if (existsSync(winPath)) return winPath;
     }
     throw new Error(
-      'sqlite3 command not found. Install SQLite: Windows choco install sqlite, macOS brew install sqlite, Linux apt-get install sqlite3'
+      'No SQLite available. Use Node.js 22.13+ (built-in node:sqlite), or install the sqlite3 CLI: ' +
+      'Windows choco install sqlite, macOS brew install sqlite, Linux apt-get install sqlite3'
     );
   }
 }
 
-function runSqliteQuery(filePath: string, sql: string, sqlite3Cmd: string): string {
-  return execSync(`"${sqlite3Cmd}" "${filePath}" ${JSON.stringify(sql)}`, { encoding: 'utf-8' });
-}
+type SqlValue = string | number | bigint | null | Uint8Array;
 
-function vacuumDatabase(filePath: string, sqlite3Cmd?: string): { beforeMb: number; afterMb: number } {
-  const cmd = sqlite3Cmd ?? getSqlite3Command();
-  const beforeMb = getFileSizeMb(filePath);
-  console.log(`  Size before: ${beforeMb.toFixed(2)} MB`);
-  try {
-    execSync(`"${cmd}" "${filePath}" "VACUUM;"`, { stdio: 'inherit' });
-  } catch (error) {
-    throw new Error(
-      `Failed to run VACUUM: ${error instanceof Error ? error.message : String(error)}\n` +
-      'Make sure Cursor/VS Code is closed before running this script.'
-    );
-  }
-  const afterMb = getFileSizeMb(filePath);
-  const savedMb = beforeMb - afterMb;
-  const savedPercent = beforeMb > 0 ? ((savedMb / beforeMb) * 100).toFixed(1) : '0';
-  console.log(`  Size after:  ${afterMb.toFixed(2)} MB`);
-  console.log(`  Saved:       ${savedMb.toFixed(2)} MB (${savedPercent}%)`);
-  return { beforeMb, afterMb };
+/**
+ * An open state.vscdb. Opened once per database and shared by every query on it. Values are always bound as
+ * parameters (? placeholders); only table and column names, which come from fixed lists, are put into SQL text.
+ */
+interface SqliteDb {
+  readonly filePath: string;
+  readonly driver: 'node:sqlite' | 'sqlite3-cli';
+  /** Run one statement and return its rows. */
+  all<T>(sql: string, params?: SqlValue[]): T[];
+  /** Run one statement that returns no rows. */
+  run(sql: string, params?: SqlValue[]): void;
+  /** Run a multi-statement script without parameters (e.g. BEGIN; ...; COMMIT;). */
+  exec(sql: string): void;
+  close(): void;
 }
 
-function pruneDatabase(filePath: string, label: string, thresholdMb: number): boolean {
-  console.log(`\n${label}:`);
-  console.log(`  Path: ${filePath}`);
+/** The subset of node:sqlite (Node.js 22.5+) used here; declared locally so older @types/node still type-check. */
+interface NodeSqliteModule {
+  DatabaseSync: new (path: string, options?: { readOnly?: boolean }) => {
+    prepare(sql: string): { all(...params: SqlValue[]): unknown[]; run(...params: SqlValue[]): unknown };
+    exec(sql: string): void;
+    close(): void;
+  };
+}
 
-  const sizeMb = getFileSizeMb(filePath);
+let nodeSqlite: NodeSqliteModule | null | undefined;
 
-  if (sizeMb < thresholdMb) {
-    console.log(`  Size: ${sizeMb.toFixed(2)} MB (below threshold of ${thresholdMb} MB, skipping)`);
-    return false;
+function loadNodeSqlite(): NodeSqliteModule | null {
+  if (nodeSqlite === undefined) {
+    // Node 22/23 print an ExperimentalWarning when node:sqlite is first loaded; it is noise for this tool.
+    const emitWarning = process.emitWarning;
+    process.emitWarning = ((warning: string | Error, ...rest: unknown[]) => {
+      if (String(warning).includes('SQLite')) return;
+      (emitWarning as (...args: unknown[]) => void).call(process, warning, ...rest);
+    }) as typeof process.emitWarning;
+    try {
+      nodeSqlite = require('node:sqlite') as NodeSqliteModule;
+    } catch {
+      nodeSqlite = null;
+    } finally {
+      process.emitWarning = emitWarning;
+    }
   }
+  return nodeSqlite;
+}
 
-  console.log(`  Size: ${sizeMb.toFixed(2)} MB (above threshold, pruning...)`);
-  try {
-    vacuumDatabase(filePath);
-    return true;
-  } catch (error) {
-    console.error(`  Error pruning ${label}:`, error instanceof Error ? error.message : String(error));
-    return false;
+/** Render a value as an SQL literal for the CLI fallback, which has no parameter binding on the command line. */
+function toSqlLiteral(value: SqlValue | undefined): string {
+  if (value == null) return 'NULL';
+  if (typeof value === 'number' || typeof value === 'bigint') return String(value);
+  if (value instanceof Uint8Array) return `X'${Buffer.from(value).toString('hex')}'`;
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/** Replace ? placeholders outside quoted strings/identifiers with literals. */
+function inlineSqlParams(sql: string, params: SqlValue[]): string {
+  let out = '';
+  let quote: string | null = null;
+  let next = 0;
+  for (const ch of sql) {
+    if (quote) {
+      if (ch === quote) quote = null;
+      out += ch;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+      out += ch;
+    } else if (ch === '?') {
+      out += toSqlLiteral(params[next++]);
+    } else {
+      out += ch;
+    }
   }
+  return out;
 }
 
-/** Analyze global state.vscdb: list tables and top keys by size (ItemTable). */
-function analyzeGlobalStateVscdb(filePath: string): void {
-  const sqlite3 = getSqlite3Command();
-  const fileMb = getFileSizeMb(filePath);
-  console.log('\n=== Global state.vscdb analysis ===\n');
-  console.log(`Path: ${filePath}`);
-  console.log(`File size: ${fileMb.toFixed(2)} MB\n`);
+/** Fallback driver: pipes each statement to the sqlite3 CLI on stdin (no shell) and reads rows back in -json mode. */
+function openCliDatabase(filePath: string, readOnly: boolean): SqliteDb {
+  const cmd = getSqlite3Command();
+  const runCli = (args: string[], sql: string) => {
+    try {
+      return execFileSync(cmd, ['-bail', ...(readOnly ? ['-readonly'] : []), ...args, filePath], {
+        input: `${sql.trim().replace(/;?$/, ';')}\n`,
+        encoding: 'utf-8',
+        maxBuffer: 512 * 1024 * 1024,
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+    } catch (error) {
+      // Report sqlite3's own message (e.g. "Runtime error near line 2: database is locked (5)"), not the command line.
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw stderr ? new Error(stderr) : error;
+    }
+  };
+  return {
+    filePath,
+    driver: 'sqlite3-cli',
+    all<T>(sql: string, params: SqlValue[] = []): T[] {
+      const out = runCli(['-json'], inlineSqlParams(sql, params));
+      return out.trim() ? (JSON.parse(out) as T[]) : [];
+    },
+    run(sql: string, params: SqlValue[] = []): void {
+      runCli([], inlineSqlParams(sql, params));
+    },
+    exec(sql: string): void {
+      runCli([], sql);
+    },
+    close(): void {},
+  };
+}
+
+/**
+ * Open filePath in-process with node:sqlite when available, else through the sqlite3 CLI. With readOnly the file and its
+ * -wal are left exactly as they are (a read-write connection checkpoints and removes the -wal when it closes).
+ */
+function openDatabase(filePath: string, readOnly = false): SqliteDb {
+  const sqlite = loadNodeSqlite();
+  if (!sqlite) return openCliDatabase(filePath, readOnly);
+  const db = new sqlite.DatabaseSync(filePath, { readOnly });
+  return {
+    filePath,
+    driver: 'node:sqlite',
+    all<T>(sql: string, params: SqlValue[] = []): T[] {
+      return db.prepare(sql).all(...params) as T[];
+    },
+    run(sql: string, params: SqlValue[] = []): void {
+      db.prepare(sql).run(...params);
+    },
+    exec(sql: string): void {
+      db.exec(sql);
+    },
+    close(): void {
+      db.close();
+    },
+  };
+}
 
+/** Open filePath (read-only for reports, see openDatabase), run fn and always close the database again. */
+function withDatabase<T>(filePath: string, fn: (db: SqliteDb) => T, readOnly = false): T {
+  const db = openDatabase(filePath, readOnly);
   try {
-    const tablesOut = runSqliteQuery(filePath, "SELECT name FROM sqlite_master WHERE type='table' ORDER BY name;", sqlite3);
-    const tables = tablesOut.trim().split(/\r?\n/).map((s) => s.trim()).filter(Boolean);
-    console.log('Tables:', tables.join(', ') || '(none)');
-
-    const runTopKeys = (tableName: string, keyCol: string, valueCol: string, limit: number) => {
-      const sumOut = runSqliteQuery(
-        filePath,
-        `SELECT SUM(LENGTH(${valueCol})) FROM ${tableName};`,
-        sqlite3
-      );
-      const totalBytes = parseInt(sumOut.trim(), 10) || 0;
-      const totalMb = totalBytes / (1024 * 1024);
-      console.log(`\n${tableName} total value size: ${totalMb.toFixed(2)} MB\n`);
-      console.log(`Top ${limit} keys by value size:`);
-      console.log('-----------------------------------------------');
-      const topOut = runSqliteQuery(
-        filePath,
-        `SELECT ${keyCol}, ROUND(LENGTH(${valueCol})/1024.0/1024.0, 2) AS size_mb FROM ${tableName} ORDER BY LENGTH(${valueCol}) DESC LIMIT ${limit};`,
-        sqlite3
-      );
-      const lines = topOut.trim().split(/\r?\n/).filter(Boolean);
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        const sep = line.includes('|') ? '|' : '\t';
-        const parts = line.split(sep);
-        const key = (parts[0] || '').trim();
-        const sizeMb = (parts[1] || '').trim();
-        const keyShort = key.length > 70 ? key.slice(0, 67) + '...' : key;
-        console.log(`${keyShort.padEnd(70)} ${sizeMb} MB`);
-      }
-    };
+    return fn(db);
+  } finally {
+    db.close();
+  }
+}
 
-    for (const table of ['ItemTable', 'cursorDiskKV']) {
-      if (!tables.some((t) => t === table)) continue;
-      try {
-        const infoOut = runSqliteQuery(filePath, `PRAGMA table_info(${table});`, sqlite3);
-        const cols = infoOut.trim().split(/\r?\n/).map((r) => (r.split('|')[1] || r.split('\t')[1] || '').trim()).filter(Boolean);
-        const keyCol = cols[0] || 'key';
-        const valueCol = cols[1] || 'value';
-        runTopKeys(table, keyCol, valueCol, 50);
-      } catch (err) {
-        console.log(`\n(Skipping ${table}: ${err instanceof Error ? err.message : String(err)})\n`);
-      }
-    }
+/** Run a PRAGMA that returns one row per message (quick_check, integrity_check) and join the messages. */
+function runPragmaCheck(db: SqliteDb, pragma: 'quick_check' | 'integrity_check'): string {
+  return db
+    .all<Record<string, unknown>>(`PRAGMA ${pragma};`)
+    .map((row) => String(Object.values(row)[0]))
+    .join('\n');
+}
 
-    console.log('\n--- Sub-options to free space (run with Cursor closed) ---\n');
+/** One SQL statement and the values bound to its ? placeholders. */
+type SqlStatement = [sql: string, params: SqlValue[]];
 
-    console.log('1) bubbleId:%  (cursorDiskKV)');
-    console.log('   Possible reduction: Often 100–400+ MB (each chat bubble is ~1–5 MB).');
-    console.log('   Impact: Deletes stored content of past AI chat bubbles (composer/chat threads).');
-    console.log('   Your projects and code are unchanged. You lose the ability to scroll back through old');
-    console.log('   conversations in Cursor; new chats and Composer sessions work as usual.');
-    console.log('   Command: npx tsx scripts/prune-state-vscdb.ts --analyze --table cursorDiskKV --delete-keys "bubbleId:%"\n');
+/**
+ * Run statements in one transaction, rolling back if any of them fails. The sqlite3 CLI ends a transaction with each
+ * process, so there the statements are sent together as one BEGIN/COMMIT script (-bail stops at the first error and the
+ * open transaction is dropped with the process).
+ */
+function runInTransaction(db: SqliteDb, statements: SqlStatement[]): void {
+  if (db.driver === 'sqlite3-cli') {
+    db.exec(['BEGIN;', ...statements.map(([sql, params]) => inlineSqlParams(sql, params)), 'COMMIT;'].join('\n'));
+    return;
+  }
+  db.exec('BEGIN;');
+  try {
+    for (const [sql, params] of statements) db.run(sql, params);
+    db.exec('COMMIT;');
+  } catch (error) {
+    db.exec('ROLLBACK;');
+    throw error;
+  }
+}
 
-    console.log('2) checkpointId:%  (cursorDiskKV)');
-    console.log('   Possible reduction: Often 100–300+ MB (each checkpoint ~0.9–1.1 MB).');
-    console.log('   Impact: Deletes saved checkpoints for Composer sessions (snapshots used to restore state).');
-    console.log('   Your projects and code are unchanged. You lose the ability to restore older Composer');
-    console.log('   states from the UI; current work and new sessions are unaffected.');
-    console.log('   Command: npx tsx scripts/prune-state-vscdb.ts --analyze --table cursorDiskKV --delete-keys "checkpointId:%"\n');
+/** DELETE statements for rows by rowid, in batches to stay under SQLite's expression limits. */
+function deleteRowidsStatements(table: TableName, rowids: number[]): SqlStatement[] {
+  const statements: SqlStatement[] = [];
+  for (let i = 0; i < rowids.length; i += 500) {
+    statements.push([`DELETE FROM ${table} WHERE rowid IN (${rowids.slice(i, i + 500).join(',')});`, []]);
+  }
+  return statements;
+}
 
-    console.log('3) composerData:%  (cursorDiskKV)');
-    console.log('   Possible reduction: Typically 1–50+ MB (metadata for Composer sessions).');
-    console.log('   Impact: Deletes Composer session metadata (e.g. context, panel state).');
-    console.log('   Your projects and code are unchanged. You may lose in-progress Composer context');
-    console.log('   and panel layout for past sessions; new Composer sessions work as usual.');
-    console.log('   Command: npx tsx scripts/prune-state-vscdb.ts --analyze --table cursorDiskKV --delete-keys "composerData:%"\n');
+/** Delete rows by rowid in a single transaction. */
+function deleteRowids(db: SqliteDb, table: TableName, rowids: number[]): void {
+  runInTransaction(db, deleteRowidsStatements(table, rowids));
+}
 
-    console.log('4) agentKv:blob:%  (cursorDiskKV)');
-    console.log('   Possible reduction: Often 100–400+ MB (each blob ~0.3–0.9 MB; many entries).');
-    console.log('   Impact: Deletes cached agent/blob data used by Cursor (e.g. model outputs, context).');
-    console.log('   Your projects and code are unchanged. Cursor may re-download or regenerate some');
-    console.log('   data; performance might briefly change. New sessions work as usual.');
-    console.log('   Command: npx tsx scripts/prune-state-vscdb.ts --analyze --table cursorDiskKV --delete-keys "agentKv:blob:%"\n');
+/** Estimate the file size after VACUUM if removedBytes of value data were deleted: used pages minus the removed bytes. */
+function estimateSizeAfterVacuumMb(db: SqliteDb, removedBytes: number): number {
+  const pragma = (name: string) => Number(Object.values(db.all<Record<string, unknown>>(`PRAGMA ${name};`)[0] ?? {})[0]) || 0;
+  const pageSize = pragma('page_size');
+  const usedBytes = (pragma('page_count') - pragma('freelist_count')) * pageSize;
+  return Math.max(pageSize, usedBytes - removedBytes) / (1024 * 1024);
+}
 
-    console.log('5) ItemTable (small; VS Code / extension state only)');
-    console.log('   Possible reduction: Usually under 1 MB.');
-    console.log('   Impact: Depends on the key pattern (e.g. cursor.composer% for some UI state).');
-    console.log('   Command: npx tsx scripts/prune-state-vscdb.ts --analyze --delete-keys "cursor.composer%"\n');
-  } catch (e) {
-    console.error('Analysis failed:', e instanceof Error ? e.message : String(e));
+/** First bytes of a rollback journal that still holds an unfinished transaction (zeroed/truncated once it is committed). */
+const HOT_JOURNAL_MAGIC = Buffer.from([0xd9, 0xd5, 0x05, 0xf9, 0x20, 0xa1, 0x63, 0xd7]);
+
+function hasHotJournal(filePath: string): boolean {
+  const journalPath = `${filePath}-journal`;
+  if (!existsSync(journalPath) || getFileSizeBytes(journalPath) < HOT_JOURNAL_MAGIC.length) return false;
+  const header = Buffer.alloc(HOT_JOURNAL_MAGIC.length);
+  const fd = openSync(journalPath, 'r');
+  try {
+    readSync(fd, header, 0, header.length, 0);
+  } finally {
+    closeSync(fd);
   }
+  return header.equals(HOT_JOURNAL_MAGIC);
 }
 
-/** Delete rows where key LIKE pattern in the given table, then VACUUM. If keepLast is set, only the oldest (by rowid) are deleted so the last keepLast items remain. */
-function deleteKeysAndVacuum(filePath: string, pattern: string, table: TableName, keepLast: number | null): void {
-  const sqlite3 = getSqlite3Command();
-  const escaped = pattern.replace(/'/g, "''");
-  const likeLiteral = `'${escaped}'`;
-  const countOut = runSqliteQuery(
-    filePath,
-    `SELECT COUNT(*) FROM ${table} WHERE key LIKE ${likeLiteral};`,
-    sqlite3
-  );
-  const count = parseInt(countOut.trim(), 10) || 0;
-  if (count === 0) {
-    console.log(`No keys matching "${pattern}" in ${table}. Nothing to delete.`);
-    return;
+/**
+ * Pre-flight check before any write: refuse if another process (Cursor/VS Code) has the database open or mid-write,
+ * and flush a leftover WAL into the main file so size reports and backups see all data. Throws with what to do otherwise.
+ * Cursor holds a lock while the database is in WAL mode or being written; an idle connection in rollback mode holds none
+ * and cannot be detected, so closing Cursor first is still required.
+ */
+function assertSafeToWrite(filePath: string, onProgress: ProgressCallback = logProgress): void {
+  const closeCursor = 'Close Cursor/VS Code (including Cursor Agent/Helper processes) and try again. Nothing was changed.';
+  if (hasHotJournal(filePath)) {
+    throw new Error(
+      `${filePath}-journal holds an unfinished transaction: Cursor is writing to the database, or crashed mid-write.\n` +
+      'Close Cursor, start it once so it can recover the database, close it again and retry. Nothing was changed.'
+    );
   }
-  const beforeMb = getFileSizeMb(filePath);
-  const toDelete = keepLast != null ? Math.max(0, count - keepLast) : count;
-  if (toDelete === 0) {
-    console.log(`All ${count} key(s) match "${pattern}". Keeping last ${keepLast}; nothing to delete.`);
-    return;
+  const walBytes = getDbFileSizes(filePath).walBytes;
+  try {
+    // An exclusive lock on the file is only granted when no other connection has the database open (WAL) or is writing.
+    withDatabase(filePath, (db) => db.exec('PRAGMA locking_mode=EXCLUSIVE;\nBEGIN EXCLUSIVE;\nROLLBACK;'));
+  } catch (error) {
+    throw new Error(`${filePath} is in use (${error instanceof Error ? error.message.trim() : String(error)}).\n${closeCursor}`);
   }
-  if (keepLast != null) {
-    console.log(`Deleting ${toDelete} key(s) from ${table} matching "${pattern}" (keeping last ${keepLast})...`);
-    runSqliteQuery(
-      filePath,
-      `DELETE FROM ${table} WHERE key LIKE ${likeLiteral} AND rowid NOT IN (SELECT rowid FROM ${table} WHERE key LIKE ${likeLiteral} ORDER BY rowid DESC LIMIT ${keepLast});`,
-      sqlite3
+  // Closing the last connection normally flushes the WAL; if one is left, checkpoint it now that nobody else is using it.
+  if (getDbFileSizes(filePath).walBytes > 0) {
+    const [row] = withDatabase(filePath, (db) =>
+      db.all<{ busy: number; log: number; checkpointed: number }>('PRAGMA wal_checkpoint(TRUNCATE);')
     );
-  } else {
-    console.log(`Deleting ${count} key(s) from ${table} matching "${pattern}"...`);
-    runSqliteQuery(filePath, `DELETE FROM ${table} WHERE key LIKE ${likeLiteral};`, sqlite3);
+    if (!row || row.busy !== 0 || row.log !== row.checkpointed) {
+      throw new Error(`Could not flush ${filePath}-wal into the database (checkpoint incomplete).\n${closeCursor}`);
+    }
   }
-  console.log('Running VACUUM to reclaim space...');
-  vacuumDatabase(filePath, sqlite3);
-  const afterMb = getFileSizeMb(filePath);
-  console.log(`\nFreed: ${(beforeMb - afterMb).toFixed(2)} MB`);
+  if (walBytes > 0) onProgress(`  Flushed write-ahead log (${(walBytes / (1024 * 1024)).toFixed(2)} MB) into the database.`);
 }
 
-/** Run SQLite PRAGMA quick_check and integrity_check; report ok or first error. Close Cursor for reliable results. */
-function checkIntegrity(filePath: string, label: string): boolean {
-  const sqlite3 = getSqlite3Command();
-  const sizeMb = getFileSizeMb(filePath);
-  console.log(`\n${label}`);
-  console.log(`  Path: ${filePath}`);
-  console.log(`  Size: ${sizeMb.toFixed(2)} MB`);
+interface BackupInfo {
+  id: string;
+  path: string;
+  dbPath: string;
+  sizeMb: number;
+}
 
-  try {
-    const quick = runSqliteQuery(filePath, 'PRAGMA quick_check;', sqlite3).trim();
-    const ok = quick === 'ok';
-    console.log(`  PRAGMA quick_check: ${quick}`);
-    if (!ok) {
-      console.log('  ❌ Corruption or inconsistency detected (quick_check).');
-      return false;
-    }
-
-    const integrity = runSqliteQuery(filePath, 'PRAGMA integrity_check;', sqlite3).trim();
-    const integrityOk = integrity === 'ok';
-    console.log(`  PRAGMA integrity_check: ${integrityOk ? 'ok' : integrity.split('\n')[0] || integrity}`);
-    if (!integrityOk) {
-      console.log('  ❌ Integrity check reported errors.');
-      return false;
-    }
-    console.log('  ✅ No corruption detected.');
-    return true;
-  } catch (e) {
-    console.log('  ❌ Error running check:', e instanceof Error ? e.message : String(e));
-    return false;
-  }
+function getBackupDir(filePath: string): string {
+  return `${filePath}.backups`;
 }
 
-const CATEGORIES: { table: TableName; pattern: string; label: string }[] = [
-  { table: 'cursorDiskKV', pattern: 'bubbleId:%', label: 'bubbleId:% (cursorDiskKV) - chat bubbles' },
-  { table: 'cursorDiskKV', pattern: 'checkpointId:%', label: 'checkpointId:% (cursorDiskKV) - Composer checkpoints' },
-  { table: 'cursorDiskKV', pattern: 'composerData:%', label: 'composerData:% (cursorDiskKV) - Composer session metadata' },
-  { table: 'cursorDiskKV', pattern: 'agentKv:blob:%', label: 'agentKv:blob:% (cursorDiskKV) - agent/blob cache' },
-  { table: 'ItemTable', pattern: 'cursor.composer%', label: 'cursor.composer% (ItemTable) - small UI state' },
-];
+/** Short tag that makes backup IDs unique across databases: "global", "project" or the workspaceStorage hash prefix. */
+function getBackupTag(filePath: string): string {
+  const parent = dirname(filePath);
+  if (basename(parent) === 'globalStorage') return 'global';
+  if (basename(dirname(parent)) === 'workspaceStorage') return basename(parent).slice(0, 8);
+  return 'project';
+}
 
-/** Run SELECT COUNT(*) and SUM(LENGTH(value)) for each category and display to the user. Read-only. */
-function countCategories(filePath: string): void {
-  const sqlite3 = getSqlite3Command();
-  const sizeMb = getFileSizeMb(filePath);
-  console.log('\n=== Item counts by category (global state.vscdb) ===\n');
-  console.log(`Path: ${filePath}`);
-  console.log(`File size: ${sizeMb.toFixed(2)} MB\n`);
-  console.log('Category                                          | Count      | Est. size (MB)');
-  console.log('--------------------------------------------------|------------|----------------');
+/** yyyymmdd-hhmmssSSS (UTC): milliseconds, so snapshots taken in the same second still sort in order. */
+function formatBackupTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:.]/g, '').replace('T', '-').slice(0, 18);
+}
 
-  for (const { table, pattern, label } of CATEGORIES) {
-    try {
-      const escaped = pattern.replace(/'/g, "''");
-      const likeLiteral = `'${escaped}'`;
-      const countOut = runSqliteQuery(
-        filePath,
-        `SELECT COUNT(*) FROM ${table} WHERE key LIKE ${likeLiteral};`,
-        sqlite3
-      );
-      const count = parseInt(countOut.trim(), 10) || 0;
-      const sumOut = runSqliteQuery(
-        filePath,
-        `SELECT COALESCE(SUM(LENGTH(value)), 0) FROM ${table} WHERE key LIKE ${likeLiteral};`,
-        sqlite3
-      );
-      const totalBytes = parseInt(sumOut.trim(), 10) || 0;
-      const estMb = totalBytes / (1024 * 1024);
-      const labelPadded = (label.slice(0, 49) + ' ').slice(0, 50);
-      const countStr = count.toLocaleString().padStart(10);
-      const mbStr = estMb.toFixed(2).padStart(14);
-      console.log(`${labelPadded} | ${countStr} | ${mbStr}`);
-    } catch (e) {
-      console.log(`${label.slice(0, 50).padEnd(50)} | Error: ${e instanceof Error ? e.message : String(e)}`);
-    }
+/**
+ * A fresh ID and file name for a snapshot of filePath (label is appended to the ID, e.g. -damaged). If the ID is taken,
+ * -2, -3, ... is appended: an existing snapshot is never overwritten.
+ */
+function allocateBackup(filePath: string, label = ''): { id: string; dest: string } {
+  const dir = getBackupDir(filePath);
+  mkdirSync(dir, { recursive: true });
+  const base = `${formatBackupTimestamp(new Date())}-${getBackupTag(filePath)}${label}`;
+  for (let n = 1; ; n++) {
+    const id = n === 1 ? base : `${base}-${n}`;
+    const dest = join(dir, `${basename(filePath)}.${id}.bak`);
+    if (!existsSync(dest)) return { id, dest };
   }
-  console.log('');
 }
 
-function main() {
-  const options = parseArgs();
+/** List snapshots of filePath, newest first. */
+function listBackups(filePath: string): BackupInfo[] {
+  const dir = getBackupDir(filePath);
+  if (!existsSync(dir)) return [];
+  const prefix = `${basename(filePath)}.`;
+  const out: BackupInfo[] = [];
+  for (const name of readdirSync(dir)) {
+    if (!name.startsWith(prefix) || !name.endsWith('.bak')) continue;
+    const path = join(dir, name);
+    out.push({ id: name.slice(prefix.length, -'.bak'.length), path, dbPath: filePath, sizeMb: getFileSizeMb(path) });
+  }
+  return out.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+/** Remove the oldest snapshots of filePath so that at most keep remain. */
+function pruneBackups(filePath: string, keep: number, onProgress: ProgressCallback = logProgress): void {
+  for (const old of listBackups(filePath).slice(keep)) {
+    try {
+      unlinkSync(old.path);
+      for (const suffix of ['-wal', '-journal']) {
+        if (existsSync(`${old.path}${suffix}`)) unlinkSync(`${old.path}${suffix}`);
+      }
+      onProgress(`  Removed old backup: ${old.id}`);
+    } catch (e) {
+      onProgress(`  Could not remove old backup ${old.id}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+}
+
+/**
+ * Take a consistent snapshot of filePath with VACUUM INTO (safe even if the DB uses WAL) and apply the retention limit.
+ * Throws if the snapshot cannot be written so callers never modify a database without a backup.
+ */
+function createBackup(filePath: string, keepBackups: number, db?: SqliteDb, onProgress: ProgressCallback = logProgress): BackupInfo {
+  const { id, dest } = allocateBackup(filePath);
+  try {
+    if (db) db.run('VACUUM INTO ?;', [dest]);
+    else withDatabase(filePath, (d) => d.run('VACUUM INTO ?;', [dest]));
+  } catch (error) {
+    throw new Error(
+      `Failed to back up ${filePath}: ${error instanceof Error ? error.message : String(error)}\n` +
+      'Nothing was changed. Check free disk space and that Cursor/VS Code is closed.'
+    );
+  }
+  const backup: BackupInfo = { id, path: dest, dbPath: filePath, sizeMb: getFileSizeMb(dest) };
+  onProgress(`  Backup:      ${backup.id} (${backup.sizeMb.toFixed(2)} MB) -> ${dest}`);
+  pruneBackups(filePath, keepBackups, onProgress);
+  return backup;
+}
+
+/** Replace the database with the snapshot identified by id. The current file is backed up first so the restore can be undone. */
+function restoreBackup(installation: Installation | null, id: string, keepBackups: number): boolean {
+  const matches = getAllStateVscdbPaths(installation)
+    .flatMap(({ path: filePath }) => listBackups(filePath))
+    .filter((b) => b.id === id);
+  if (matches.length === 0) {
+    console.log(`No backup with ID "${id}". Run with --list-backups to see available backups.`);
+    return false;
+  }
+  const backup = matches[0];
+  console.log(`Restoring ${backup.dbPath}`);
+  console.log(`  From backup: ${backup.id} (${backup.sizeMb.toFixed(2)} MB)`);
+  try {
+    assertSafeToWrite(backup.dbPath);
+  } catch (error) {
+    console.error('  Restore failed:', error instanceof Error ? error.message : String(error));
+    return false;
+  }
+
+  // Copy first: the safety backup below applies retention and may remove the snapshot being restored.
+  const tmpPath = `${backup.dbPath}.restore-tmp`;
+  copyFileSync(backup.path, tmpPath);
+  try {
+    createBackup(backup.dbPath, keepBackups);
+    renameSync(tmpPath, backup.dbPath);
+  } catch (error) {
+    if (existsSync(tmpPath)) unlinkSync(tmpPath);
+    console.error('  Restore failed:', error instanceof Error ? error.message : String(error));
+    return false;
+  }
+  // Leftover WAL/journal files belong to the replaced database and would corrupt the restored one.
+  for (const suffix of ['-wal', '-shm', '-journal']) {
+    const sidecar = `${backup.dbPath}${suffix}`;
+    if (existsSync(sidecar)) unlinkSync(sidecar);
+  }
+  console.log(`  ✅ Restored. Size: ${formatDbSize(backup.dbPath)}`);
+  return true;
+}
+
+function vacuumDatabase(filePath: string, db?: SqliteDb, onProgress: ProgressCallback = logProgress): { beforeMb: number; afterMb: number } {
+  const beforeMb = getDbSizeMb(filePath);
+  onProgress(`  Size before: ${formatDbSize(filePath)}`);
+  // In WAL mode VACUUM writes the rebuilt database into the -wal; checkpoint it so the file really shrinks now.
+  const sql = 'VACUUM;\nPRAGMA wal_checkpoint(TRUNCATE);';
+  try {
+    if (db) db.exec(sql);
+    else withDatabase(filePath, (d) => d.exec(sql));
+  } catch (error) {
+    throw new Error(
+      `Failed to run VACUUM: ${error instanceof Error ? error.message : String(error)}\n` +
+      'Make sure Cursor/VS Code is closed before running this script.'
+    );
+  }
+  const afterMb = getDbSizeMb(filePath);
+  const savedMb = beforeMb - afterMb;
+  const savedPercent = beforeMb > 0 ? ((savedMb / beforeMb) * 100).toFixed(1) : '0';
+  onProgress(`  Size after:  ${formatDbSize(filePath)}`);
+  onProgress(`  Saved:       ${savedMb.toFixed(2)} MB (${savedPercent}%)`);
+  return { beforeMb, afterMb };
+}
+
+interface PruneResult {
+  path: string;
+  label: string;
+  /** Database plus its -wal/-journal files. */
+  beforeBytes: number;
+  afterBytes: number;
+  pruned: boolean;
+  /** True when the file was below the threshold and left alone. */
+  skipped: boolean;
+  backupId: string | null;
+  error: string | null;
+}
+
+function pruneDatabase(
+  filePath: string,
+  label: string,
+  thresholdMb: number,
+  keepBackups: number,
+  onProgress: ProgressCallback = logProgress
+): PruneResult {
+  onProgress(`\n${label}:`);
+  onProgress(`  Path: ${filePath}`);
+
+  const beforeBytes = getDbFileSizes(filePath).totalBytes;
+  const sizeMb = beforeBytes / (1024 * 1024);
+  const result: PruneResult = {
+    path: filePath,
+    label,
+    beforeBytes,
+    afterBytes: beforeBytes,
+    pruned: false,
+    skipped: false,
+    backupId: null,
+    error: null,
+  };
+
+  if (sizeMb < thresholdMb) {
+    onProgress(`  Size: ${formatDbSize(filePath)} (below threshold of ${thresholdMb} MB, skipping)`);
+    result.skipped = true;
+    return result;
+  }
+
+  onProgress(`  Size: ${formatDbSize(filePath)} (above threshold, pruning...)`);
+  try {
+    assertSafeToWrite(filePath, onProgress);
+    result.backupId = createBackup(filePath, keepBackups, undefined, onProgress).id;
+    vacuumDatabase(filePath, undefined, onProgress);
+    result.pruned = true;
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+    onProgress(`  Error pruning ${label}: ${result.error}`);
+  }
+  result.afterBytes = getDbFileSizes(filePath).totalBytes;
+  return result;
+}
+
+interface TopKey {
+  key: string;
+  bytes: number;
+}
+
+interface TableAnalysis {
+  table: string;
+  totalValueBytes: number;
+  topKeys: TopKey[];
+  error: string | null;
+}
+
+interface GlobalAnalysis {
+  path: string;
+  /** Database plus its -wal/-journal files; walBytes and journalBytes are the sidecars' share. */
+  fileSizeBytes: number;
+  walBytes: number;
+  journalBytes: number;
+  tables: string[];
+  tableDetails: TableAnalysis[];
+  keyFamilies: KeyFamily[];
+  orphans: OrphanReport | null;
+}
+
+/** Collect tables, total value size, the top keys by value size and the key families for ItemTable and cursorDiskKV. Read-only. */
+function collectAnalysis(db: SqliteDb, includeOrphans: boolean, topN = 50, familyDepth = DEFAULT_FAMILY_DEPTH): GlobalAnalysis {
+  const tables = db.all<{ name: string }>("SELECT name FROM sqlite_master WHERE type='table' ORDER BY name;").map((r) => r.name);
+  const tableDetails: TableAnalysis[] = [];
+  for (const table of ['ItemTable', 'cursorDiskKV']) {
+    if (!tables.includes(table)) continue;
+    try {
+      const cols = db.all<{ name: string }>('SELECT name FROM pragma_table_info(?);', [table]).map((r) => r.name);
+      const keyCol = cols[0] || 'key';
+      const valueCol = cols[1] || 'value';
+      const [{ total }] = db.all<{ total: number }>(`SELECT COALESCE(SUM(LENGTH(${valueCol})), 0) AS total FROM ${table};`);
+      const topKeys = db.all<TopKey>(
+        `SELECT ${keyCol} AS key, COALESCE(LENGTH(${valueCol}), 0) AS bytes FROM ${table} ORDER BY LENGTH(${valueCol}) DESC LIMIT ?;`,
+        [topN]
+      );
+      tableDetails.push({ table, totalValueBytes: total, topKeys, error: null });
+    } catch (err) {
+      tableDetails.push({ table, totalValueBytes: 0, topKeys: [], error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  const { walBytes, journalBytes, totalBytes } = getDbFileSizes(db.filePath);
+  return {
+    path: db.filePath,
+    fileSizeBytes: totalBytes,
+    walBytes,
+    journalBytes,
+    tables,
+    tableDetails,
+    keyFamilies: discoverKeyFamilies(db, familyDepth),
+    orphans: includeOrphans && tables.includes('cursorDiskKV') ? findOrphans(db) : null,
+  };
+}
+
+/**
+ * Analyze global state.vscdb: list tables, top keys by size and the key families (see discoverKeyFamilies).
+ * With includeOrphans, also report orphaned cursorDiskKV rows.
+ */
+function analyzeGlobalStateVscdb(filePath: string, includeOrphans = false, familyDepth = DEFAULT_FAMILY_DEPTH): void {
+  const fileMb = getDbSizeMb(filePath);
+  console.log('\n=== Global state.vscdb analysis ===\n');
+  console.log(`Path: ${filePath}`);
+  console.log(`File size: ${formatDbSize(filePath)}\n`);
+
+  try {
+    const analysis = analyzeDatabase(filePath, { includeOrphans, familyDepth });
+    console.log('Tables:', analysis.tables.join(', ') || '(none)');
+
+    for (const { table, totalValueBytes, topKeys, error } of analysis.tableDetails) {
+      if (error) {
+        console.log(`\n(Skipping ${table}: ${error})\n`);
+        continue;
+      }
+      console.log(`\n${table} total value size: ${(totalValueBytes / (1024 * 1024)).toFixed(2)} MB\n`);
+      console.log(`Top ${topKeys.length} keys by value size:`);
+      console.log('-----------------------------------------------');
+      for (const { key, bytes } of topKeys) {
+        const keyShort = key.length > 70 ? key.slice(0, 67) + '...' : key;
+        console.log(`${keyShort.padEnd(70)} ${(bytes / (1024 * 1024)).toFixed(2)} MB`);
+      }
+    }
+
+    printKeyFamilies(analysis.keyFamilies, familyDepth);
+    if (analysis.orphans) printOrphanReport(analysis.orphans);
+
+    console.log('\n--- Sub-options to free space (run with Cursor closed) ---\n');
+
+    console.log('1) bubbleId:%  (cursorDiskKV)');
+    console.log('   Possible reduction: Often 100–400+ MB (each chat bubble is ~1–5 MB).');
+    console.log('   Impact: Deletes stored content of past AI chat bubbles (composer/chat threads).');
+    console.log('   Your projects and code are unchanged. You lose the ability to scroll back through old');
+    console.log('   conversations in Cursor; new chats and Composer sessions work as usual.');
+    console.log('   Command: npx tsx scripts/prune-state-vscdb.ts --analyze --table cursorDiskKV --delete-keys "bubbleId:%"\n');
+
+    console.log('2) checkpointId:%  (cursorDiskKV)');
+    console.log('   Possible reduction: Often 100–300+ MB (each checkpoint ~0.9–1.1 MB).');
+    console.log('   Impact: Deletes saved checkpoints for Composer sessions (snapshots used to restore state).');
+    console.log('   Your projects and code are unchanged. You lose the ability to restore older Composer');
+    console.log('   states from the UI; current work and new sessions are unaffected.');
+    console.log('   Command: npx tsx scripts/prune-state-vscdb.ts --analyze --table cursorDiskKV --delete-keys "checkpointId:%"\n');
+
+    console.log('3) composerData:%  (cursorDiskKV)');
+    console.log('   Possible reduction: Typically 1–50+ MB (metadata for Composer sessions).');
+    console.log('   Impact: Deletes Composer session metadata (e.g. context, panel state).');
+    console.log('   Your projects and code are unchanged. You may lose in-progress Composer context');
+    console.log('   and panel layout for past sessions; new Composer sessions work as usual.');
+    console.log('   Command: npx tsx scripts/prune-state-vscdb.ts --analyze --table cursorDiskKV --delete-keys "composerData:%"\n');
+
+    console.log('4) agentKv:blob:%  (cursorDiskKV)');
+    console.log('   Possible reduction: Often 100–400+ MB (each blob ~0.3–0.9 MB; many entries).');
+    console.log('   Impact: Deletes cached agent/blob data used by Cursor (e.g. model outputs, context).');
+    console.log('   Your projects and code are unchanged. Cursor may re-download or regenerate some');
+    console.log('   data; performance might briefly change. New sessions work as usual.');
+    console.log('   Command: npx tsx scripts/prune-state-vscdb.ts --analyze --table cursorDiskKV --delete-keys "agentKv:blob:%"\n');
+
+    console.log('5) ItemTable (small; VS Code / extension state only)');
+    console.log('   Possible reduction: Usually under 1 MB.');
+    console.log('   Impact: Depends on the key pattern (e.g. cursor.composer% for some UI state).');
+    console.log('   Command: npx tsx scripts/prune-state-vscdb.ts --analyze --delete-keys "cursor.composer%"\n');
+
+    console.log('6) Orphaned rows  (cursorDiskKV)');
+    console.log('   Possible reduction: Varies; bubbles/checkpoints left behind by deleted Composer sessions.');
+    console.log('   Impact: None visible. Only rows whose composerData session no longer exists are removed.');
+    console.log('   Command: npx tsx scripts/prune-state-vscdb.ts --delete-orphans --dry-run  (then without --dry-run)\n');
+
+    console.log('7) Slim bubbles instead of deleting them  (cursorDiskKV)');
+    console.log('   Possible reduction: Often most of a 1–5 MB bubble (embedded images, file contents, tool output).');
+    console.log('   Impact: Conversations stay readable; attachments and long tool output in them are emptied or truncated.');
+    console.log('   Command: npx tsx scripts/prune-state-vscdb.ts --field-sizes "bubbleId:%"  (then --slim "bubbleId:%" --dry-run)\n');
+  } catch (e) {
+    console.error('Analysis failed:', e instanceof Error ? e.message : String(e));
+  }
+}
+
+interface WorkspaceAnalysis {
+  hash: string;
+  /** Project folder from workspace.json; null if it cannot be read. */
+  folder: string | null;
+  path: string;
+  /** Database plus its -wal/-journal files. */
+  sizeBytes: number;
+  analysis: GlobalAnalysis | null;
+  error: string | null;
+}
+
+/** Size breakdown and top keys of every workspaceStorage state.vscdb, largest first. Read-only. */
+function collectWorkspaceAnalyses(installation: Installation | null, topN = 10): WorkspaceAnalysis[] {
+  const out: WorkspaceAnalysis[] = [];
+  for (const { hash, folder, statePath } of getWorkspaceStorageEntries(installation)) {
+    const entry: WorkspaceAnalysis = { hash, folder, path: statePath, sizeBytes: 0, analysis: null, error: null };
+    try {
+      entry.sizeBytes = getDbFileSizes(statePath).totalBytes;
+      entry.analysis = withDatabase(statePath, (db) => collectAnalysis(db, false, topN), true);
+    } catch (e) {
+      entry.error = e instanceof Error ? e.message : String(e);
+    }
+    out.push(entry);
+  }
+  return out.sort((a, b) => b.sizeBytes - a.sizeBytes);
+}
+
+/** Rank workspaces by state.vscdb size with the project folder each workspaceStorage hash belongs to, then list their top keys. */
+function analyzeWorkspaces(installation: Installation | null): void {
+  const workspaces = collectWorkspaceAnalyses(installation);
+  const toMb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(2);
+  const tableMb = (w: WorkspaceAnalysis, table: string) =>
+    toMb(w.analysis?.tableDetails.find((t) => t.table === table)?.totalValueBytes ?? 0);
+  const totalBytes = workspaces.reduce((sum, w) => sum + w.sizeBytes, 0);
+  console.log('\n=== Workspace state.vscdb analysis (workspaceStorage) ===\n');
+  console.log(`Workspaces: ${workspaces.length}, total ${toMb(totalBytes)} MB\n`);
+  console.log('   # | Size (MB)  | ItemTable (MB) | cursorDiskKV (MB) | Project folder');
+  console.log('-----|------------|----------------|-------------------|----------------------------------------');
+  workspaces.forEach((w, i) => {
+    const folder = w.folder ?? `(unknown; workspaceStorage/${w.hash})`;
+    console.log(
+      `${String(i + 1).padStart(4)} | ${toMb(w.sizeBytes).padStart(10)} | ${tableMb(w, 'ItemTable').padStart(14)} | ` +
+      `${tableMb(w, 'cursorDiskKV').padStart(17)} | ${folder}`
+    );
+  });
+
+  workspaces.forEach((w, i) => {
+    console.log(`\n#${i + 1} ${w.folder ?? '(unknown folder)'}`);
+    console.log(`   Path: ${w.path}`);
+    if (w.error) {
+      console.log(`   (Skipping: ${w.error})`);
+      return;
+    }
+    for (const { table, topKeys, error } of w.analysis?.tableDetails ?? []) {
+      if (error) {
+        console.log(`   (Skipping ${table}: ${error})`);
+        continue;
+      }
+      if (topKeys.length === 0) continue;
+      console.log(`   ${table} top ${topKeys.length} keys by value size:`);
+      for (const { key, bytes } of topKeys) {
+        const keyShort = key.length > 67 ? key.slice(0, 64) + '...' : key;
+        console.log(`     ${keyShort.padEnd(67)} ${toMb(bytes)} MB`);
+      }
+    }
+  });
+  if (workspaces.length > 0) {
+    console.log('\nTo shrink a workspace DB: npx tsx scripts/prune-state-vscdb.ts --workspace --threshold 0 (VACUUM, Cursor closed).');
+  }
+}
+
+function getDirSizeBytes(dir: string): number {
+  let total = 0;
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) total += getDirSizeBytes(path);
+    else if (entry.isFile()) total += getFileSizeBytes(path);
+  }
+  return total;
+}
+
+interface WorkspaceStatus extends WorkspaceStorageEntry {
+  /** Whether the project folder / .code-workspace file still exists; null for remote or unknown folders (never flagged). */
+  folderExists: boolean | null;
+  /** Last time Cursor wrote the workspace's state.vscdb (ms since epoch). */
+  lastUsed: number;
+  /** Whole workspaceStorage/<hash> directory, including backups and extension data. */
+  sizeBytes: number;
+  staleReason: string | null;
+}
+
+/**
+ * Classify every workspaceStorage entry: stale if its local folder or workspace file no longer exists, or (with olderThan)
+ * if it was last used before the cutoff. Remote and unknown folders are only flagged by age. Read-only.
+ */
+function findStaleWorkspaces(installation: Installation | null, olderThan: Date | null): WorkspaceStatus[] {
+  return getWorkspaceStorageEntries(installation).map((entry) => {
+    const isLocal = entry.folder != null && !/^[a-z][a-z0-9+.-]+:\/\//i.test(entry.folder);
+    const folderExists = isLocal ? existsSync(entry.folder as string) : null;
+    const lastUsed = statSync(entry.statePath).mtimeMs;
+    let staleReason: string | null = null;
+    if (folderExists === false) staleReason = 'folder missing';
+    else if (olderThan && lastUsed < olderThan.getTime()) staleReason = 'not used since cutoff';
+    return { ...entry, folderExists, lastUsed, sizeBytes: getDirSizeBytes(entry.dir), staleReason };
+  });
+}
+
+/**
+ * Delete workspaceStorage directories of projects that no longer exist (or, with olderThan, were not opened since the cutoff).
+ * Live projects are left alone. Without confirmed, only lists what would be deleted. Each directory is checked with
+ * assertSafeToWrite first, so workspaces Cursor has open are skipped.
+ */
+function cleanWorkspaces(installation: Installation | null, olderThan: Date | null, confirmed: boolean): void {
+  const statuses = findStaleWorkspaces(installation, olderThan);
+  const stale = statuses.filter((w) => w.staleReason).sort((a, b) => b.sizeBytes - a.sizeBytes);
+  const toMb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(2);
+  const staleBytes = stale.reduce((sum, w) => sum + w.sizeBytes, 0);
+  const criteria = olderThan ? `folder missing or not used since ${olderThan.toISOString().slice(0, 10)}` : 'folder missing';
+  console.log(`\n=== ${confirmed ? '' : 'Dry run: '}Stale workspaceStorage entries (${criteria}) ===\n`);
+  console.log(`Workspaces found: ${statuses.length}, stale: ${stale.length} (${toMb(staleBytes)} MB)\n`);
+  if (stale.length > 0) {
+    console.log(`${'Size (MB)'.padStart(10)}  ${'last used'.padEnd(10)}  ${'reason'.padEnd(26)}  project folder`);
+    for (const w of stale) {
+      const lastUsed = new Date(w.lastUsed).toISOString().slice(0, 10);
+      console.log(`${toMb(w.sizeBytes).padStart(10)}  ${lastUsed}  ${(w.staleReason ?? '').padEnd(26)}  ${w.folder}`);
+    }
+  }
+  const unknown = statuses.filter((w) => !w.staleReason && w.folderExists == null).length;
+  if (unknown > 0) console.log(`\n${unknown} remote or unknown workspace(s) cannot be checked for a missing folder and are kept.`);
+  if (stale.length === 0) {
+    console.log('Nothing to clean.');
+    return;
+  }
+  if (!confirmed) {
+    console.log(`\nDry run: nothing was deleted. Re-run with --yes to delete these ${stale.length} folder(s) (Cursor closed).`);
+    return;
+  }
+
+  let freedBytes = 0;
+  let failed = 0;
+  for (const w of stale) {
+    try {
+      assertSafeToWrite(w.statePath);
+      rmSync(w.dir, { recursive: true, force: true });
+      freedBytes += w.sizeBytes;
+      console.log(`  Deleted: ${w.dir}`);
+    } catch (e) {
+      failed++;
+      console.error(`  Skipped ${w.dir}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  console.log(`\nDeleted ${stale.length - failed} workspace folder(s), freed ${toMb(freedBytes)} MB.`);
+  if (failed > 0) throw new Error(`${failed} workspace folder(s) could not be deleted.`);
+}
+
+type CacheLevel = 'light' | 'full';
+
+/** Folders under a cache root that --clean-caches deletes; full also drops the recent workspaces list and local file history. */
+const CACHE_DIRS: Record<CacheLevel, string[]> = {
+  light: ['Cache', 'CachedData', 'Code Cache', 'GPUCache', 'logs'],
+  full: ['Cache', 'CachedData', 'Code Cache', 'GPUCache', 'logs', 'User/workspaceStorage', 'User/History'],
+};
+
+interface CacheDir {
+  path: string;
+  /** Path relative to its cache root, as listed in CACHE_DIRS. */
+  label: string;
+  sizeBytes: number;
+}
+
+/**
+ * Folders holding an installation's caches: its user data dir and, for a default install on Windows, the folder of the
+ * same name in %LOCALAPPDATA% (Cursor keeps a second set of caches there).
+ */
+function getCacheRoots(installation: Installation): string[] {
+  const roots = [installation.userDataDir];
+  const isDefault = detectInstallations().some((i) => i.userDataDir === installation.userDataDir);
+  if (isDefault && process.env.LOCALAPPDATA) roots.push(join(process.env.LOCALAPPDATA, installation.name));
+  return [...new Set(roots)].filter((root) => existsSync(root));
+}
+
+/** Every existing cache folder of the given level, with its size. Read-only. */
+function findCacheDirs(installation: Installation, level: CacheLevel): CacheDir[] {
+  const out: CacheDir[] = [];
+  for (const root of getCacheRoots(installation)) {
+    for (const label of CACHE_DIRS[level]) {
+      const path = join(root, ...label.split('/'));
+      if (existsSync(path)) out.push({ path, label, sizeBytes: getDirSizeBytes(path) });
+    }
+  }
+  return out;
+}
+
+/**
+ * Delete an installation's cache folders (see CACHE_DIRS), listing each with its size first. Refuses while the editor
+ * has its global state.vscdb open. Returns the bytes freed; with dryRun nothing is deleted and the bytes that would be freed
+ * are returned.
+ */
+function cleanCaches(installation: Installation, level: CacheLevel, dryRun: boolean): number {
+  const dirs = findCacheDirs(installation, level);
+  const toMb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(2);
+  const totalBytes = dirs.reduce((sum, d) => sum + d.sizeBytes, 0);
+  console.log(`\n=== ${dryRun ? 'Dry run: ' : ''}${level === 'full' ? 'Full' : 'Light'} cache cleanup of ${describeInstallation(installation)} ===\n`);
+  if (dirs.length === 0) {
+    console.log('No cache folders found. Nothing to clean.');
+    return 0;
+  }
+  console.log(`${'Size (MB)'.padStart(10)}  folder`);
+  for (const d of dirs) console.log(`${toMb(d.sizeBytes).padStart(10)}  ${d.path}`);
+  console.log(`${toMb(totalBytes).padStart(10)}  total`);
+  if (level === 'full') console.log('\nFull cleanup also removes the recent workspaces list (workspaceStorage) and local file history (History).');
+  if (dryRun) {
+    console.log(`\nDry run: nothing was deleted. Re-run without --dry-run to free ${toMb(totalBytes)} MB (editor closed).`);
+    return totalBytes;
+  }
+
+  // Deleting caches under a running editor breaks it (or fails on Windows); its open global DB is the best sign it runs.
+  const globalPath = join(installation.userDataDir, 'User', 'globalStorage', 'state.vscdb');
+  if (existsSync(globalPath)) assertSafeToWrite(globalPath);
+
+  let freedBytes = 0;
+  let failed = 0;
+  for (const d of dirs) {
+    try {
+      rmSync(d.path, { recursive: true, force: true });
+      freedBytes += d.sizeBytes;
+      console.log(`  Deleted: ${d.path}`);
+    } catch (e) {
+      failed++;
+      console.error(`  Skipped ${d.path}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  console.log(`\nDeleted ${dirs.length - failed} folder(s), freed ${toMb(freedBytes)} MB. The editor rebuilds its caches on the next start.`);
+  if (failed > 0) throw new Error(`${failed} cache folder(s) could not be deleted. Close the editor and try again.`);
+  return freedBytes;
+}
+
+/** What a --delete-keys run removed (or, with dryRun, would remove). File sizes include -wal/-journal. */
+interface DeleteResult {
+  path: string;
+  table: TableName;
+  pattern: string;
+  matched: number;
+  deleted: number;
+  /** Value bytes of the deleted rows. */
+  deletedBytes: number;
+  /** Matching rows left in place: the last keepLast, newer than olderThan, or without a timestamp (counted in undated too). */
+  kept: number;
+  undated: number;
+  beforeBytes: number;
+  /** File size after VACUUM; with dryRun, the estimate. */
+  afterBytes: number;
+  dryRun: boolean;
+  /** Snapshot taken before the delete; null if nothing was deleted. */
+  backupId: string | null;
+}
+
+/**
+ * Delete rows where key LIKE pattern in the given table, then VACUUM. If keepLast is set, only the oldest (by rowid) are deleted so the last keepLast items remain.
+ * If olderThan is set, only rows whose stored timestamps are before the cutoff are deleted (see selectKeysForDeletion). A backup is taken before anything is deleted.
+ * With dryRun nothing is changed and afterBytes is the projected size.
+ */
+function deleteKeysAndVacuum(
+  filePath: string,
+  pattern: string,
+  table: TableName,
+  keepLast: number | null,
+  olderThan: Date | null,
+  keepBackups: number,
+  archiveDir: string | null,
+  dryRun = false,
+  onProgress: ProgressCallback = logProgress
+): DeleteResult {
+  if (!dryRun) assertSafeToWrite(filePath, onProgress);
+  const beforeBytes = getDbFileSizes(filePath).totalBytes;
+  const result = withDatabase(filePath, (db): DeleteResult => {
+    const { toDelete, toKeep, undated } = selectKeysForDeletion(db, pattern, table, keepLast, olderThan);
+    const deletedBytes = toDelete.reduce((sum, r) => sum + r.bytes, 0);
+    const matched = toDelete.length + toKeep.length + undated.length;
+    const out: DeleteResult = {
+      path: filePath,
+      table,
+      pattern,
+      matched,
+      deleted: toDelete.length,
+      deletedBytes,
+      kept: toKeep.length + undated.length,
+      undated: undated.length,
+      beforeBytes,
+      afterBytes: beforeBytes,
+      dryRun,
+      backupId: null,
+    };
+    if (matched === 0) {
+      onProgress(`No keys matching "${pattern}" in ${table}. Nothing to delete.`);
+      return out;
+    }
+    if (undated.length > 0) {
+      onProgress(`${undated.length} key(s) matching "${pattern}" have no timestamp and are kept (use --dry-run to list them).`);
+    }
+    if (toDelete.length === 0) {
+      onProgress(
+        olderThan
+          ? `No keys matching "${pattern}" are older than ${olderThan.toISOString().slice(0, 10)}. Nothing to delete.`
+          : `All ${matched} key(s) match "${pattern}". Keeping last ${keepLast}; nothing to delete.`
+      );
+      return out;
+    }
+    if (dryRun) {
+      out.afterBytes = Math.round(estimateSizeAfterVacuumMb(db, deletedBytes) * 1024 * 1024);
+      return out;
+    }
+    if (table === 'cursorDiskKV') archiveConversations(db, toDelete.map((r) => r.key), archiveDir, onProgress);
+    onProgress('Backing up before delete...');
+    out.backupId = createBackup(filePath, keepBackups, db, onProgress).id;
+    onProgress(`Deleting ${toDelete.length} key(s) from ${table} matching "${pattern}"${describeSelection(keepLast, olderThan)}...`);
+    deleteRowids(db, table, toDelete.map((r) => r.rowid));
+    onProgress('Running VACUUM to reclaim space...');
+    vacuumDatabase(filePath, db, onProgress);
+    return out;
+  }, dryRun);
+  if (result.backupId) result.afterBytes = getDbFileSizes(filePath).totalBytes;
+  return result;
+}
+
+interface KeyRow {
+  rowid: number;
+  key: string;
+  bytes: number;
+  /** Last activity (ms since epoch) read from the JSON value; only populated for --older-than selections. */
+  timestamp?: number | null;
+}
+
+/** Parse a duration like 30d, 12h or 2w, or an ISO date, into the cutoff Date (items last active before it are "older"). */
+function parseOlderThan(value: string, now: Date = new Date()): Date | null {
+  const m = /^(\d+)\s*([hdw])$/i.exec(value.trim());
+  if (m) {
+    const unitMs = { h: 3600_000, d: 86400_000, w: 7 * 86400_000 }[m[2].toLowerCase() as 'h' | 'd' | 'w'];
+    return new Date(now.getTime() - parseInt(m[1], 10) * unitMs);
+  }
+  const date = new Date(value);
+  return /^\d{4}-\d{2}-\d{2}/.test(value) && !isNaN(date.getTime()) ? date : null;
+}
+
+/** Cursor stores timestamps as epoch ms, epoch seconds or ISO strings; normalize to epoch ms. */
+function parseTimestamp(value: unknown): number | null {
+  if (typeof value === 'number' && value > 0) return value < 1e12 ? value * 1000 : value;
+  if (typeof value === 'string' && value.trim()) {
+    if (/^\d+$/.test(value.trim())) return parseTimestamp(Number(value));
+    const ms = Date.parse(value);
+    return isNaN(ms) ? null : ms;
+  }
+  return null;
+}
+
+/** Composer session ID embedded in composerData:<id>, bubbleId:<id>:<bubble> and checkpointId:<id>:<checkpoint> keys. */
+function getComposerIdFromKey(key: string): string | null {
+  const m = /^(?:composerData|bubbleId|checkpointId):([^:]+)/.exec(key);
+  return m ? m[1] : null;
+}
+
+/** SQL expression extracting a JSON field from a value column, NULL when the value is not JSON. */
+function jsonFieldSql(valueCol: string, field: string): string {
+  return `CASE WHEN json_valid(CAST(${valueCol} AS TEXT)) THEN json_extract(CAST(${valueCol} AS TEXT), '$.${field}') END`;
+}
+
+/** Latest of createdAt / lastUpdatedAt for every composer session, keyed by composer ID. */
+function getComposerTimestamps(db: SqliteDb): Map<string, number> {
+  const rows = db.all<{ key: string; createdAt: unknown; lastUpdatedAt: unknown }>(
+    `SELECT key, ${jsonFieldSql('value', 'createdAt')} AS createdAt, ${jsonFieldSql('value', 'lastUpdatedAt')} AS lastUpdatedAt
+     FROM cursorDiskKV WHERE key LIKE 'composerData:%';`
+  );
+  const out = new Map<string, number>();
+  for (const row of rows) {
+    const id = getComposerIdFromKey(row.key);
+    const ts = Math.max(parseTimestamp(row.createdAt) ?? 0, parseTimestamp(row.lastUpdatedAt) ?? 0);
+    if (id && ts > 0) out.set(id, ts);
+  }
+  return out;
+}
+
+/**
+ * Split rows matching pattern into the ones --delete-keys would delete and keep, using the same newest-by-rowid rule.
+ * With olderThan, only rows whose last activity is before the cutoff are deleted: the row's own createdAt/lastUpdatedAt,
+ * else its composer session's. Rows with no timestamp at all are returned in undated and never deleted.
+ */
+function selectKeysForDeletion(
+  db: SqliteDb,
+  pattern: string,
+  table: TableName,
+  keepLast: number | null,
+  olderThan: Date | null
+): { toDelete: KeyRow[]; toKeep: KeyRow[]; undated: KeyRow[] } {
+  const timestampCols = olderThan
+    ? `, ${jsonFieldSql('value', 'createdAt')} AS createdAt, ${jsonFieldSql('value', 'lastUpdatedAt')} AS lastUpdatedAt`
+    : '';
+  const rows = db.all<KeyRow & { createdAt?: unknown; lastUpdatedAt?: unknown }>(
+    `SELECT rowid, key, COALESCE(LENGTH(value), 0) AS bytes${timestampCols} FROM ${table} WHERE key LIKE ? ESCAPE '\\' ORDER BY rowid DESC;`,
+    [pattern]
+  );
+  const composerTimestamps = olderThan && table === 'cursorDiskKV' ? getComposerTimestamps(db) : new Map<string, number>();
+  const toKeyRow = ({ rowid, key, bytes, createdAt, lastUpdatedAt }: (typeof rows)[number]): KeyRow => {
+    if (!olderThan) return { rowid, key, bytes };
+    const own = Math.max(parseTimestamp(createdAt) ?? 0, parseTimestamp(lastUpdatedAt) ?? 0);
+    const composerId = getComposerIdFromKey(key);
+    return { rowid, key, bytes, timestamp: own > 0 ? own : (composerId && composerTimestamps.get(composerId)) || null };
+  };
+  const keep = keepLast ?? 0;
+  // The last keepLast rows are kept whatever their age, but still carry their timestamp for the dry-run listing.
+  const toKeep = rows.slice(0, keep).map(toKeyRow);
+  const rest = rows.slice(keep).map(toKeyRow);
+  if (!olderThan) return { toKeep, toDelete: rest, undated: [] };
+
+  const toDelete: KeyRow[] = [];
+  const undated: KeyRow[] = [];
+  for (const row of rest) {
+    if (row.timestamp == null) undated.push(row);
+    else if (row.timestamp < olderThan.getTime()) toDelete.push(row);
+    else toKeep.push(row);
+  }
+  return { toDelete, toKeep, undated };
+}
+
+/** Print rows as a rowid / size / (last activity) / key table. Keys are JSON-escaped so newlines stay on one line. */
+function printKeyRows(title: string, rows: KeyRow[], showTimestamp: boolean): void {
+  console.log(`\n${title} (${rows.length}):`);
+  if (rows.length === 0) return;
+  const tsHeader = showTimestamp ? ` ${'last activity'.padEnd(20)}` : '';
+  console.log(`${'rowid'.padStart(10)} ${'size (KB)'.padStart(12)}${tsHeader}  key`);
+  for (const row of rows) {
+    const key = JSON.stringify(row.key).slice(1, -1);
+    const ts = showTimestamp
+      ? ` ${(row.timestamp ? new Date(row.timestamp).toISOString().slice(0, 19).replace('T', ' ') : '-').padEnd(20)}`
+      : '';
+    console.log(`${String(row.rowid).padStart(10)} ${(row.bytes / 1024).toFixed(1).padStart(12)}${ts}  ${key}`);
+  }
+}
+
+function describeSelection(keepLast: number | null, olderThan: Date | null): string {
+  const parts: string[] = [];
+  if (olderThan) parts.push(`older than ${olderThan.toISOString().slice(0, 10)}`);
+  if (keepLast != null) parts.push(`keeping last ${keepLast}`);
+  return parts.length ? ` (${parts.join(', ')})` : '';
+}
+
+/** Dry run of deleteKeysAndVacuum: list the keys that would be deleted and kept, and the projected size after VACUUM. Read-only. */
+function previewDeleteKeys(
+  filePath: string,
+  pattern: string,
+  table: TableName,
+  keepLast: number | null,
+  olderThan: Date | null
+): void {
+  const { toDelete, toKeep, undated, estAfterMb } = withDatabase(filePath, (db) => {
+    const selection = selectKeysForDeletion(db, pattern, table, keepLast, olderThan);
+    const deleteBytes = selection.toDelete.reduce((sum, r) => sum + r.bytes, 0);
+    return { ...selection, estAfterMb: estimateSizeAfterVacuumMb(db, deleteBytes) };
+  }, true);
+  console.log(`\n=== Dry run: delete "${pattern}" from ${table}${describeSelection(keepLast, olderThan)} ===`);
+
+  printKeyRows('Would delete', toDelete, olderThan != null);
+  printKeyRows('Would keep', toKeep, olderThan != null);
+  if (olderThan) printKeyRows('No timestamp found (kept, not deleted)', undated, false);
+
+  const deleteBytes = toDelete.reduce((sum, r) => sum + r.bytes, 0);
+  const keepBytes = [...toKeep, ...undated].reduce((sum, r) => sum + r.bytes, 0);
+  const fileMb = getDbSizeMb(filePath);
+  console.log('\nSummary:');
+  console.log(`  Keys to delete:       ${toDelete.length.toLocaleString()} (${(deleteBytes / (1024 * 1024)).toFixed(2)} MB of values)`);
+  console.log(`  Keys to keep:         ${(toKeep.length + undated.length).toLocaleString()} (${(keepBytes / (1024 * 1024)).toFixed(2)} MB of values)`);
+  if (olderThan) console.log(`  Without timestamp:    ${undated.length.toLocaleString()} (kept)`);
+  console.log(`  File size now:        ${formatDbSize(filePath)}`);
+  console.log(`  Est. after VACUUM:    ${estAfterMb.toFixed(2)} MB (saves ~${Math.max(0, fileMb - estAfterMb).toFixed(2)} MB)`);
+  console.log('\nDry run: no changes were made.');
+}
+
+interface ComposerSession {
+  composerId: string;
+  name: string | null;
+  /** Latest of createdAt / lastUpdatedAt from composerData, or null if the session has none. */
+  timestamp: number | null;
+  /** composerData row plus every cursorDiskKV row keyed by this composer (bubbleId, checkpointId, ...). */
+  rows: KeyRow[];
+  bytes: number;
+}
+
+/**
+ * Group cursorDiskKV rows into Composer sessions. A session is a composerData:<id> row; every other key of the form
+ * <prefix>:<id>:... (bubbleId, checkpointId, messageRequestContext, ...) belongs to it, and so does every agentKv row
+ * whose key carries the composer ID (agentKv:<kind>:<id>:..., see getOwningComposerId). Rows of unknown sessions are ignored.
+ */
+function getComposerSessions(db: SqliteDb): ComposerSession[] {
+  const composers = db.all<{ key: string; name: unknown; createdAt: unknown; lastUpdatedAt: unknown }>(
+    `SELECT key, ${jsonFieldSql('value', 'name')} AS name, ${jsonFieldSql('value', 'createdAt')} AS createdAt,
+     ${jsonFieldSql('value', 'lastUpdatedAt')} AS lastUpdatedAt FROM cursorDiskKV WHERE key LIKE 'composerData:%';`
+  );
+  const sessions = new Map<string, ComposerSession>();
+  for (const c of composers) {
+    const composerId = getComposerIdFromKey(c.key);
+    if (!composerId) continue;
+    const ts = Math.max(parseTimestamp(c.createdAt) ?? 0, parseTimestamp(c.lastUpdatedAt) ?? 0);
+    sessions.set(composerId, {
+      composerId,
+      name: typeof c.name === 'string' && c.name ? c.name : null,
+      timestamp: ts > 0 ? ts : null,
+      rows: [],
+      bytes: 0,
+    });
+  }
+  const rows = db.all<KeyRow>('SELECT rowid, key, COALESCE(LENGTH(value), 0) AS bytes FROM cursorDiskKV;');
+  for (const row of rows) {
+    const session = sessions.get(getOwningComposerId(row.key) ?? row.key.split(':')[1] ?? '');
+    if (!session) continue;
+    session.rows.push(row);
+    session.bytes += row.bytes;
+  }
+  return [...sessions.values()];
+}
+
+/**
+ * Decide which whole sessions to delete: the keepSessions most recent dated sessions are kept; of the rest, all are
+ * deleted, or only those last active before olderThan. Sessions without a timestamp are always kept (and reported).
+ */
+function selectSessionsForDeletion(
+  sessions: ComposerSession[],
+  keepSessions: number | null,
+  olderThan: Date | null
+): { toDelete: ComposerSession[]; toKeep: ComposerSession[]; undated: ComposerSession[] } {
+  const dated = sessions.filter((s) => s.timestamp != null).sort((a, b) => (b.timestamp ?? 0) - (a.timestamp ?? 0));
+  const undated = sessions.filter((s) => s.timestamp == null);
+  const keep = keepSessions ?? 0;
+  const toKeep = dated.slice(0, keep);
+  const toDelete: ComposerSession[] = [];
+  for (const session of dated.slice(keep)) {
+    if (olderThan && (session.timestamp ?? 0) >= olderThan.getTime()) toKeep.push(session);
+    else toDelete.push(session);
+  }
+  return { toDelete, toKeep, undated };
+}
+
+function printSessions(title: string, sessions: ComposerSession[]): void {
+  console.log(`\n${title} (${sessions.length}):`);
+  if (sessions.length === 0) return;
+  console.log(`${'last activity'.padEnd(20)} ${'rows'.padStart(6)} ${'size (MB)'.padStart(10)}  composer ID / name`);
+  for (const s of sessions) {
+    const ts = s.timestamp ? new Date(s.timestamp).toISOString().slice(0, 19).replace('T', ' ') : '-';
+    const name = s.name ? `  ${s.name.length > 50 ? s.name.slice(0, 47) + '...' : s.name}` : '';
+    console.log(`${ts.padEnd(20)} ${String(s.rows.length).padStart(6)} ${(s.bytes / (1024 * 1024)).toFixed(2).padStart(10)}  ${s.composerId}${name}`);
+  }
+}
+
+interface SessionPruneResult {
+  path: string;
+  /** Sessions found; split into toDelete, toKeep and undated (see selectSessionsForDeletion). */
+  sessions: number;
+  toDelete: ComposerSession[];
+  toKeep: ComposerSession[];
+  /** Sessions without a timestamp: always kept. */
+  undated: ComposerSession[];
+  /** Rows and value bytes of the sessions in toDelete. */
+  deletedRows: number;
+  deletedBytes: number;
+  beforeBytes: number;
+  /** File size after VACUUM; with dryRun, the estimate. */
+  afterBytes: number;
+  dryRun: boolean;
+  /** Snapshot taken before the delete; null if nothing was deleted. */
+  backupId: string | null;
+}
+
+/**
+ * Delete whole Composer conversations (composerData + all their bubbles, checkpoints and other per-session rows) so no
+ * session is left half-deleted. Deleted sessions are also removed from the sidebar list in ItemTable composer.composerData.
+ * With dryRun nothing is changed and afterBytes is the projected size. A backup is taken before anything is deleted.
+ */
+function pruneSessions(
+  filePath: string,
+  keepSessions: number | null,
+  olderThan: Date | null,
+  keepBackups: number,
+  dryRun: boolean,
+  archiveDir: string | null,
+  onProgress: ProgressCallback = logProgress
+): SessionPruneResult {
+  if (!dryRun) assertSafeToWrite(filePath, onProgress);
+  const beforeBytes = getDbFileSizes(filePath).totalBytes;
+  const result = withDatabase(filePath, (db): SessionPruneResult => {
+    const sessions = getComposerSessions(db);
+    const { toDelete, toKeep, undated } = selectSessionsForDeletion(sessions, keepSessions, olderThan);
+    const deleteRows = toDelete.flatMap((s) => s.rows);
+    const out: SessionPruneResult = {
+      path: filePath,
+      sessions: sessions.length,
+      toDelete,
+      toKeep,
+      undated,
+      deletedRows: deleteRows.length,
+      deletedBytes: toDelete.reduce((sum, s) => sum + s.bytes, 0),
+      beforeBytes,
+      afterBytes: beforeBytes,
+      dryRun,
+      backupId: null,
+    };
+    if (dryRun) {
+      out.afterBytes = Math.round(estimateSizeAfterVacuumMb(db, out.deletedBytes) * 1024 * 1024);
+      return out;
+    }
+    if (undated.length > 0) {
+      onProgress(`${undated.length} session(s) have no timestamp and are kept (use --dry-run to list them).`);
+    }
+    if (toDelete.length === 0) {
+      onProgress('No sessions to delete.');
+      return out;
+    }
+    archiveConversations(db, deleteRows.map((r) => r.key), archiveDir, onProgress);
+    onProgress('Backing up before delete...');
+    out.backupId = createBackup(filePath, keepBackups, db, onProgress).id;
+    onProgress(`Deleting ${toDelete.length} session(s) (${deleteRows.length.toLocaleString()} rows), keeping ${toKeep.length + undated.length}...`);
+    // Rows and sidebar entries go together: a failure must not leave sessions listed whose rows are gone.
+    runInTransaction(db, [
+      ...deleteRowidsStatements('cursorDiskKV', deleteRows.map((r) => r.rowid)),
+      sidebarRemovalStatement(toDelete.map((s) => s.composerId)),
+    ]);
+    onProgress('Running VACUUM to reclaim space...');
+    vacuumDatabase(filePath, db, onProgress);
+    return out;
+  }, dryRun);
+  if (result.backupId) result.afterBytes = getDbFileSizes(filePath).totalBytes;
+  return result;
+}
+
+/** --prune-sessions: prune with progress on the console, then list the sessions (dry run) or print the space freed. */
+function printPruneSessions(
+  filePath: string,
+  keepSessions: number | null,
+  olderThan: Date | null,
+  keepBackups: number,
+  dryRun: boolean,
+  archiveDir: string | null
+): void {
+  const keepNote = keepSessions != null ? `keeping ${keepSessions} most recent` : '';
+  const ageNote = olderThan ? `older than ${olderThan.toISOString().slice(0, 10)}` : '';
+  const note = [ageNote, keepNote].filter(Boolean).join(', ');
+  console.log(`\n=== ${dryRun ? 'Dry run: prune' : 'Prune'} Composer sessions${note ? ` (${note})` : ''} ===`);
+  console.log(`Path: ${filePath}`);
+  const result = pruneSessions(filePath, keepSessions, olderThan, keepBackups, dryRun, archiveDir);
+  console.log(`Sessions found: ${result.sessions}`);
+  if (!dryRun) {
+    if (result.backupId) console.log(`\nFreed: ${((result.beforeBytes - result.afterBytes) / (1024 * 1024)).toFixed(2)} MB`);
+    return;
+  }
+  printSessions('Would delete', result.toDelete);
+  printSessions('Would keep', result.toKeep);
+  printSessions('No timestamp found (kept, not deleted)', result.undated);
+  const toMb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(2);
+  console.log('\nSummary:');
+  console.log(`  Sessions to delete:   ${result.toDelete.length} (${result.deletedRows.toLocaleString()} rows, ${toMb(result.deletedBytes)} MB of values)`);
+  console.log(`  Sessions to keep:     ${result.toKeep.length + result.undated.length} (${result.undated.length} without timestamp)`);
+  console.log(`  File size now:        ${formatDbSize(filePath)}`);
+  console.log(`  Est. after VACUUM:    ${toMb(result.afterBytes)} MB (saves ~${toMb(Math.max(0, result.beforeBytes - result.afterBytes))} MB)`);
+  console.log('\nDry run: no changes were made.');
+}
+
+/** Statement dropping deleted composers from ItemTable composer.composerData.allComposers, so Cursor does not list sessions that no longer exist. */
+function sidebarRemovalStatement(composerIds: string[]): SqlStatement {
+  return [
+    `UPDATE ItemTable SET value = json_set(CAST(value AS TEXT), '$.allComposers', (
+      SELECT json_group_array(json(e.value)) FROM json_each(CAST(ItemTable.value AS TEXT), '$.allComposers') AS e
+      WHERE json_extract(e.value, '$.composerId') IS NULL OR json_extract(e.value, '$.composerId') NOT IN (SELECT value FROM json_each(?))
+    ))
+    WHERE key = 'composer.composerData' AND json_valid(CAST(value AS TEXT)) AND json_type(CAST(value AS TEXT), '$.allComposers') = 'array';`,
+    [JSON.stringify(composerIds)],
+  ];
+}
+
+/** One message of an exported conversation. bubble is the stored value as-is, so the JSON export is lossless. */
+interface ConversationMessage {
+  bubbleId: string;
+  role: 'user' | 'assistant' | 'other';
+  createdAt: string | null;
+  text: string;
+  bubble: unknown;
+}
+
+/** Contents of <composerId>.json in an export folder. */
+interface ConversationExport {
+  version: number;
+  composerId: string;
+  name: string | null;
+  createdAt: string | null;
+  lastUpdatedAt: string | null;
+  exportedAt: string;
+  source: string;
+  /** The composerData value as stored, or null if the session row was already gone. */
+  composerData: unknown;
+  messages: ConversationMessage[];
+}
+
+interface ConversationIndexEntry {
+  composerId: string;
+  name: string | null;
+  lastActivity: string | null;
+  messages: number;
+  exportedAt: string;
+  markdown: string;
+  json: string;
+}
+
+/** Parse a stored value as JSON, falling back to the raw text for values that are not JSON. */
+function parseStoredValue(text: string | null): unknown {
+  if (text == null) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function toIsoOrNull(ms: number | null): string | null {
+  return ms ? new Date(ms).toISOString() : null;
+}
+
+/**
+ * Rebuild one Composer conversation from composerData:<id> and its bubbleId:<id>:* rows. Messages follow the order in
+ * composerData (fullConversationHeadersOnly, or conversation in older versions, whose inline bubbles are used when no
+ * bubbleId row exists); bubbles it does not list come after, by createdAt and then rowid.
+ */
+function readConversation(db: SqliteDb, composerId: string, source: string): ConversationExport {
+  const [composerRow] = db.all<{ value: string | null }>(
+    'SELECT CAST(value AS TEXT) AS value FROM cursorDiskKV WHERE key = ?;',
+    [`composerData:${composerId}`]
+  );
+  const composerData = composerRow ? parseStoredValue(composerRow.value) : null;
+  const meta = (composerData && typeof composerData === 'object' ? composerData : {}) as Record<string, unknown>;
+  const bubbleRows = db.all<{ rowid: number; key: string; value: string | null }>(
+    `SELECT rowid, key, CAST(value AS TEXT) AS value FROM cursorDiskKV WHERE key LIKE ? ESCAPE '\\' ORDER BY rowid;`,
+    [`bubbleId:${escapeLike(composerId)}:%`]
+  );
+
+  const bubbles = new Map<string, { bubble: unknown; rowid: number }>();
+  for (const row of bubbleRows) {
+    bubbles.set(row.key.split(':').slice(2).join(':'), { bubble: parseStoredValue(row.value), rowid: row.rowid });
+  }
+  const headers = Array.isArray(meta.fullConversationHeadersOnly) ? meta.fullConversationHeadersOnly : Array.isArray(meta.conversation) ? meta.conversation : [];
+  const order = new Map<string, number>();
+  for (const header of headers as Record<string, unknown>[]) {
+    if (!header || typeof header.bubbleId !== 'string' || order.has(header.bubbleId)) continue;
+    order.set(header.bubbleId, order.size);
+    if (!bubbles.has(header.bubbleId) && 'text' in header) bubbles.set(header.bubbleId, { bubble: header, rowid: Infinity });
+  }
+
+  const messages = [...bubbles]
+    .map(([bubbleId, { bubble, rowid }]) => {
+      const b = (bubble && typeof bubble === 'object' ? bubble : {}) as Record<string, unknown>;
+      const createdAt = parseTimestamp(b.createdAt);
+      return { bubbleId, bubble, rowid, createdAt, type: b.type, text: typeof b.text === 'string' ? b.text : '' };
+    })
+    .sort(
+      (a, b) =>
+        (order.get(a.bubbleId) ?? Infinity) - (order.get(b.bubbleId) ?? Infinity) ||
+        (a.createdAt ?? Infinity) - (b.createdAt ?? Infinity) ||
+        a.rowid - b.rowid
+    )
+    .map(({ bubbleId, bubble, createdAt, type, text }): ConversationMessage => ({
+      bubbleId,
+      role: type === 1 ? 'user' : type === 2 ? 'assistant' : 'other',
+      createdAt: toIsoOrNull(createdAt),
+      text,
+      bubble,
+    }));
+
+  return {
+    version: JSON_SCHEMA_VERSION,
+    composerId,
+    name: typeof meta.name === 'string' && meta.name ? meta.name : null,
+    createdAt: toIsoOrNull(parseTimestamp(meta.createdAt)),
+    lastUpdatedAt: toIsoOrNull(parseTimestamp(meta.lastUpdatedAt)),
+    exportedAt: new Date().toISOString(),
+    source,
+    composerData,
+    messages,
+  };
+}
+
+/**
+ * Fold an earlier export of the same conversation into a new one, so archiving again after a partial delete never loses
+ * messages: messages only in the earlier export stay in place, just before the next message both exports share.
+ */
+function mergeConversationExport(current: ConversationExport, previous: ConversationExport): ConversationExport {
+  const fresh = new Set(current.messages.map((m) => m.bubbleId));
+  const before = new Map<string, ConversationMessage[]>();
+  const pending: ConversationMessage[] = [];
+  for (const message of previous.messages ?? []) {
+    if (!fresh.has(message.bubbleId)) pending.push(message);
+    else if (pending.length > 0) before.set(message.bubbleId, pending.splice(0));
+  }
+  return {
+    ...current,
+    name: current.name ?? previous.name,
+    createdAt: current.createdAt ?? previous.createdAt,
+    lastUpdatedAt: current.lastUpdatedAt ?? previous.lastUpdatedAt,
+    composerData: current.composerData ?? previous.composerData,
+    messages: current.messages.flatMap((m) => [...(before.get(m.bubbleId) ?? []), m]).concat(pending),
+  };
+}
+
+function formatConversationMarkdown(conversation: ConversationExport): string {
+  const roleLabel = { user: 'User', assistant: 'Assistant', other: 'Other' };
+  const lines = [
+    `# ${conversation.name ?? 'Untitled conversation'}`,
+    '',
+    `- Composer ID: \`${conversation.composerId}\``,
+    `- Created: ${conversation.createdAt ?? 'unknown'}`,
+    `- Last updated: ${conversation.lastUpdatedAt ?? 'unknown'}`,
+    `- Messages: ${conversation.messages.length}`,
+    `- Exported: ${conversation.exportedAt} from ${conversation.source}`,
+  ];
+  for (const message of conversation.messages) {
+    lines.push('', '---', '', `### ${roleLabel[message.role]}${message.createdAt ? ` · ${message.createdAt}` : ''}`, '');
+    lines.push(message.text.trim() || '_(no text; see the JSON export for tool calls and attachments)_');
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/** Rewrite index.json and index.md in dir, keeping entries of conversations exported earlier. Newest first. */
+function updateConversationIndex(dir: string, entries: ConversationIndexEntry[]): void {
+  const indexPath = join(dir, 'index.json');
+  const byId = new Map<string, ConversationIndexEntry>();
+  if (existsSync(indexPath)) {
+    const previous = JSON.parse(readFileSync(indexPath, 'utf-8')) as { sessions?: ConversationIndexEntry[] };
+    for (const entry of previous.sessions ?? []) byId.set(entry.composerId, entry);
+  }
+  for (const entry of entries) byId.set(entry.composerId, entry);
+  const sessions = [...byId.values()].sort((a, b) => (b.lastActivity ?? '').localeCompare(a.lastActivity ?? ''));
+  writeFileSync(indexPath, `${JSON.stringify({ version: JSON_SCHEMA_VERSION, updatedAt: new Date().toISOString(), sessions }, null, 2)}\n`);
+
+  const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+  const lines = [
+    '# Cursor conversations',
+    '',
+    `${sessions.length} conversation(s), newest first.`,
+    '',
+    '| Last activity | Conversation | Messages | JSON |',
+    '|---|---|---|---|',
+    ...sessions.map(
+      (s) =>
+        `| ${s.lastActivity?.slice(0, 19).replace('T', ' ') ?? '-'} | [${cell(s.name ?? s.composerId)}](${s.markdown}) | ` +
+        `${s.messages} | [json](${s.json}) |`
+    ),
+  ];
+  writeFileSync(join(dir, 'index.md'), `${lines.join('\n')}\n`);
+}
+
+/**
+ * Export conversations to dir as <composerId>.md (readable) and <composerId>.json (lossless), plus index.md/index.json.
+ * A conversation exported before is merged with its earlier export rather than overwritten. Returns the message count.
+ */
+function exportConversations(db: SqliteDb, composerIds: string[], dir: string): number {
+  mkdirSync(dir, { recursive: true });
+  const entries: ConversationIndexEntry[] = [];
+  let messageCount = 0;
+  for (const composerId of composerIds) {
+    const fileBase = composerId.replace(/[^\w.-]/g, '_');
+    const jsonPath = join(dir, `${fileBase}.json`);
+    let conversation = readConversation(db, composerId, db.filePath);
+    if (existsSync(jsonPath)) {
+      conversation = mergeConversationExport(conversation, JSON.parse(readFileSync(jsonPath, 'utf-8')) as ConversationExport);
+    }
+    writeFileSync(jsonPath, `${JSON.stringify(conversation, null, 2)}\n`);
+    writeFileSync(join(dir, `${fileBase}.md`), formatConversationMarkdown(conversation));
+    const times = [conversation.createdAt, conversation.lastUpdatedAt, ...conversation.messages.map((m) => m.createdAt)];
+    entries.push({
+      composerId,
+      name: conversation.name,
+      lastActivity: times.filter((t): t is string => t != null).sort().pop() ?? null,
+      messages: conversation.messages.length,
+      exportedAt: conversation.exportedAt,
+      markdown: `${fileBase}.md`,
+      json: `${fileBase}.json`,
+    });
+    messageCount += conversation.messages.length;
+  }
+  updateConversationIndex(dir, entries);
+  return messageCount;
+}
+
+interface ExportResult {
+  path: string;
+  dir: string;
+  sessions: number;
+  messages: number;
+}
+
+/** Export every Composer conversation (composerData session) in filePath to dir. Read-only on the database. */
+function exportSessions(filePath: string, dir: string): ExportResult {
+  return withDatabase(filePath, (db): ExportResult => {
+    const ids = db
+      .all<{ key: string }>("SELECT key FROM cursorDiskKV WHERE key LIKE 'composerData:%' ORDER BY rowid;")
+      .map((r) => getComposerIdFromKey(r.key))
+      .filter((id): id is string => id != null);
+    return { path: filePath, dir, sessions: ids.length, messages: exportConversations(db, ids, dir) };
+  }, true);
+}
+
+/** --export-sessions: export, then print the counts and the index path. */
+function printExportSessions(filePath: string, dir: string): void {
+  console.log('\n=== Export Composer conversations ===\n');
+  console.log(`Path: ${filePath}`);
+  console.log(`To:   ${dir}`);
+  const { sessions, messages } = exportSessions(filePath, dir);
+  console.log(`\nExported ${sessions} conversation(s) with ${messages.toLocaleString()} message(s).`);
+  console.log(`Index: ${join(dir, 'index.md')}`);
+}
+
+/**
+ * Before a delete: export every conversation that loses its composerData or any bubble among the cursorDiskKV keys
+ * about to be deleted. Does nothing without an archive folder (--archive).
+ */
+function archiveConversations(
+  db: SqliteDb,
+  deletedKeys: string[],
+  archiveDir: string | null,
+  onProgress: ProgressCallback = logProgress
+): void {
+  if (!archiveDir) return;
+  const ids = new Set<string>();
+  for (const key of deletedKeys) {
+    if (key.startsWith('composerData:') || key.startsWith('bubbleId:')) {
+      const id = getComposerIdFromKey(key);
+      if (id) ids.add(id);
+    }
+  }
+  if (ids.size === 0) {
+    onProgress('No conversation rows are deleted; nothing to archive.');
+    return;
+  }
+  onProgress(`Archiving ${ids.size} conversation(s) to ${archiveDir}...`);
+  exportConversations(db, [...ids], archiveDir);
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Key prefixes whose rows belong to one Composer session; only these are checked for orphans. */
+const SESSION_KEY_PREFIXES = ['bubbleId', 'checkpointId', 'agentKv'];
+
+/**
+ * Composer session a cursorDiskKV key points at: the second segment of bubbleId:/checkpointId: keys, the first
+ * UUID-shaped segment of agentKv keys (agentKv:<kind>:<composerId>:...). Null for every other key family, whose IDs
+ * need not be composer IDs, and for composerData rows, which are sessions themselves.
+ */
+function getOwningComposerId(key: string): string | null {
+  const parts = key.split(':');
+  if (!SESSION_KEY_PREFIXES.includes(parts[0])) return null;
+  if (parts[0] === 'bubbleId' || parts[0] === 'checkpointId') return parts[1] || null;
+  return parts.slice(1).find((p) => UUID_RE.test(p)) ?? null;
+}
+
+/** Orphan report category for a key: agentKv keys are grouped by their second segment (agentKv:blob), others by prefix. */
+function getOrphanCategory(key: string): string {
+  const parts = key.split(':');
+  return parts[0] === 'agentKv' && parts.length > 2 ? `${parts[0]}:${parts[1]}` : parts[0];
+}
+
+interface OrphanReport {
+  liveSessions: number;
+  /** Rows whose owning composerData is gone, by category. */
+  orphans: Map<string, KeyRow[]>;
+  /** agentKv rows that reference no composer at all (e.g. content-addressed blobs); never treated as orphans. */
+  unattributed: Map<string, { count: number; bytes: number }>;
+}
+
+/** Cross-reference bubbleId, checkpointId and agentKv keys (SESSION_KEY_PREFIXES) against live composerData sessions. Read-only. */
+function findOrphans(db: SqliteDb): OrphanReport {
+  const rows = db.all<KeyRow>('SELECT rowid, key, COALESCE(LENGTH(value), 0) AS bytes FROM cursorDiskKV;');
+  const live = new Set<string>();
+  for (const row of rows) {
+    if (row.key.startsWith('composerData:')) live.add(row.key.slice('composerData:'.length));
+  }
+  const report: OrphanReport = { liveSessions: live.size, orphans: new Map(), unattributed: new Map() };
+  for (const row of rows) {
+    const category = getOrphanCategory(row.key);
+    const owner = getOwningComposerId(row.key);
+    if (owner && !live.has(owner)) {
+      report.orphans.set(category, [...(report.orphans.get(category) ?? []), row]);
+    } else if (!owner && category.startsWith('agentKv')) {
+      const u = report.unattributed.get(category) ?? { count: 0, bytes: 0 };
+      u.count++;
+      u.bytes += row.bytes;
+      report.unattributed.set(category, u);
+    }
+  }
+  return report;
+}
+
+/** Print orphan counts and bytes per category. */
+function printOrphanReport(report: OrphanReport): void {
+  console.log('\n=== Orphaned rows (cursorDiskKV) ===\n');
+  console.log(`Live Composer sessions (composerData): ${report.liveSessions}\n`);
+  console.log('Category                                          | Orphans    | Size (MB)');
+  console.log('--------------------------------------------------|------------|----------------');
+  let totalCount = 0;
+  let totalBytes = 0;
+  for (const [category, rows] of [...report.orphans].sort((a, b) => b[1].length - a[1].length)) {
+    const bytes = rows.reduce((sum, r) => sum + r.bytes, 0);
+    totalCount += rows.length;
+    totalBytes += bytes;
+    console.log(`${category.slice(0, 50).padEnd(50)}| ${rows.length.toLocaleString().padStart(10)} | ${(bytes / (1024 * 1024)).toFixed(2).padStart(14)}`);
+  }
+  console.log(`${'Total'.padEnd(50)}| ${totalCount.toLocaleString().padStart(10)} | ${(totalBytes / (1024 * 1024)).toFixed(2).padStart(14)}`);
+  for (const [category, u] of report.unattributed) {
+    console.log(
+      `\nNote: ${u.count.toLocaleString()} ${category} key(s) (${(u.bytes / (1024 * 1024)).toFixed(2)} MB) reference no Composer session, ` +
+      'so they cannot be attributed and are not counted as orphans.'
+    );
+  }
+  if (totalCount > 0) {
+    console.log('\nOrphans belong to conversations that no longer exist; deleting them has no visible effect in Cursor.');
+    console.log('Command: npx tsx scripts/prune-state-vscdb.ts --delete-orphans [--dry-run]');
+  }
+}
+
+interface OrphanDeleteResult {
+  path: string;
+  report: OrphanReport;
+  deleted: number;
+  /** Value bytes of the deleted rows. */
+  deletedBytes: number;
+  beforeBytes: number;
+  /** File size after VACUUM; with dryRun, the estimate. */
+  afterBytes: number;
+  dryRun: boolean;
+  /** Snapshot taken before the delete; null if nothing was deleted. */
+  backupId: string | null;
+}
+
+/**
+ * Delete only orphaned rows (see findOrphans), then VACUUM. A backup is taken first.
+ * With dryRun nothing is changed and afterBytes is the projected size.
+ */
+function deleteOrphans(
+  filePath: string,
+  keepBackups: number,
+  dryRun: boolean,
+  archiveDir: string | null,
+  onProgress: ProgressCallback = logProgress
+): OrphanDeleteResult {
+  if (!dryRun) assertSafeToWrite(filePath, onProgress);
+  const beforeBytes = getDbFileSizes(filePath).totalBytes;
+  const result = withDatabase(filePath, (db): OrphanDeleteResult => {
+    const report = findOrphans(db);
+    const rows = [...report.orphans.values()].flat();
+    const out: OrphanDeleteResult = {
+      path: filePath,
+      report,
+      deleted: rows.length,
+      deletedBytes: rows.reduce((sum, r) => sum + r.bytes, 0),
+      beforeBytes,
+      afterBytes: beforeBytes,
+      dryRun,
+      backupId: null,
+    };
+    if (dryRun) {
+      out.afterBytes = Math.round(estimateSizeAfterVacuumMb(db, out.deletedBytes) * 1024 * 1024);
+      return out;
+    }
+    if (rows.length === 0) {
+      onProgress('No orphans to delete.');
+      return out;
+    }
+    archiveConversations(db, rows.map((r) => r.key), archiveDir, onProgress);
+    onProgress('Backing up before delete...');
+    out.backupId = createBackup(filePath, keepBackups, db, onProgress).id;
+    onProgress(`Deleting ${rows.length.toLocaleString()} orphaned row(s)...`);
+    deleteRowids(db, 'cursorDiskKV', rows.map((r) => r.rowid));
+    onProgress('Running VACUUM to reclaim space...');
+    vacuumDatabase(filePath, db, onProgress);
+    return out;
+  }, dryRun);
+  if (result.backupId) result.afterBytes = getDbFileSizes(filePath).totalBytes;
+  return result;
+}
+
+/** --delete-orphans: print the orphan report, then the rows that would go (dry run) or the progress and space freed. */
+function printDeleteOrphans(filePath: string, keepBackups: number, dryRun: boolean, archiveDir: string | null): void {
+  if (dryRun) {
+    const result = deleteOrphans(filePath, keepBackups, true, archiveDir);
+    printOrphanReport(result.report);
+    printKeyRows('Would delete', [...result.report.orphans.values()].flat(), false);
+    console.log(`\nEst. after VACUUM: ${(result.afterBytes / (1024 * 1024)).toFixed(2)} MB (now ${formatDbSize(filePath)})`);
+    console.log('\nDry run: no changes were made.');
+    return;
+  }
+  // The report is printed before the delete starts, so read it first (read-only) rather than from the result.
+  printOrphanReport(withDatabase(filePath, findOrphans, true));
+  console.log('');
+  const result = deleteOrphans(filePath, keepBackups, false, archiveDir);
+  if (result.backupId) console.log(`\nFreed: ${((result.beforeBytes - result.afterBytes) / (1024 * 1024)).toFixed(2)} MB`);
+}
+
+const POLICY_VERSION = 1;
+
+type PolicyScope = 'global' | 'workspaces' | 'all';
+
+/** One validated rule of a --apply-policy file. */
+interface PolicyRule {
+  pattern: string;
+  table: TableName;
+  scope: PolicyScope;
+  keepLast: number | null;
+  /** As written in the file (e.g. "90d"), for the plan. */
+  maxAge: string | null;
+  maxAgeCutoff: Date | null;
+  maxTotalMb: number | null;
+  /** Rows matching this rule are protected from every other rule. */
+  neverTouch: boolean;
+}
+
+/**
+ * Read and validate a retention policy (JSON). Every problem is collected so the user can fix the file in one go.
+ * Rules for the CATEGORIES patterns may omit table; custom patterns must name it.
+ */
+function loadPolicy(policyPath: string, now: Date = new Date()): PolicyRule[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(policyPath, 'utf-8'));
+  } catch (e) {
+    throw new Error(`Cannot read policy ${policyPath}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const problems: string[] = [];
+  const doc = (raw ?? {}) as { version?: unknown; rules?: unknown };
+  if (doc.version !== POLICY_VERSION) problems.push(`"version" must be ${POLICY_VERSION}.`);
+  if (!Array.isArray(doc.rules) || doc.rules.length === 0) problems.push('"rules" must be a non-empty array.');
+
+  const rules: PolicyRule[] = [];
+  const knownFields = ['pattern', 'table', 'scope', 'keepLast', 'maxAge', 'maxTotalMb', 'neverTouch'];
+  (Array.isArray(doc.rules) ? doc.rules : []).forEach((item: unknown, i: number) => {
+    const where = `rules[${i}]`;
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      problems.push(`${where} must be an object.`);
+      return;
+    }
+    const r = item as Record<string, unknown>;
+    for (const field of Object.keys(r)) {
+      if (!knownFields.includes(field)) problems.push(`${where}: unknown field "${field}".`);
+    }
+    const pattern = typeof r.pattern === 'string' && r.pattern ? r.pattern : null;
+    if (!pattern) problems.push(`${where}: "pattern" (SQL LIKE) is required.`);
+    const category = CATEGORIES.find((c) => c.pattern === pattern);
+    const table = r.table === undefined ? category?.table : ALLOWED_TABLES.find((t) => t === r.table);
+    if (!table) problems.push(`${where}: "table" must be one of ${ALLOWED_TABLES.join(', ')}.`);
+    const scope = r.scope === undefined ? 'global' : (['global', 'workspaces', 'all'] as const).find((s) => s === r.scope);
+    if (!scope) problems.push(`${where}: "scope" must be global, workspaces or all.`);
+    const keepLast = r.keepLast === undefined ? null : Number.isInteger(r.keepLast) && (r.keepLast as number) > 0 ? (r.keepLast as number) : NaN;
+    if (Number.isNaN(keepLast)) problems.push(`${where}: "keepLast" must be a positive integer.`);
+    const maxAge = typeof r.maxAge === 'string' ? r.maxAge : null;
+    const maxAgeCutoff = maxAge ? parseOlderThan(maxAge, now) : null;
+    if (r.maxAge !== undefined && !maxAgeCutoff) problems.push(`${where}: "maxAge" must be like 30d, 12h, 2w or a date (2025-01-31).`);
+    const maxTotalMb = r.maxTotalMb === undefined ? null : typeof r.maxTotalMb === 'number' && r.maxTotalMb >= 0 ? r.maxTotalMb : NaN;
+    if (Number.isNaN(maxTotalMb)) problems.push(`${where}: "maxTotalMb" must be a number >= 0.`);
+    if (r.neverTouch !== undefined && typeof r.neverTouch !== 'boolean') problems.push(`${where}: "neverTouch" must be true or false.`);
+    const neverTouch = r.neverTouch === true;
+    const limits = [r.keepLast, r.maxAge, r.maxTotalMb].filter((v) => v !== undefined).length;
+    if (neverTouch && limits > 0) problems.push(`${where}: "neverTouch" cannot be combined with keepLast, maxAge or maxTotalMb.`);
+    if (!neverTouch && limits === 0) problems.push(`${where}: needs keepLast, maxAge, maxTotalMb or neverTouch.`);
+    if (pattern && table && scope) {
+      rules.push({ pattern, table, scope, keepLast, maxAge, maxAgeCutoff, maxTotalMb, neverTouch });
+    }
+  });
+  if (problems.length > 0) {
+    throw new Error(`Invalid policy ${policyPath}:\n${problems.map((p) => `  - ${p}`).join('\n')}`);
+  }
+  return rules;
+}
+
+/**
+ * Rows a rule deletes: the newest keepLast are always kept; of the rest, a row goes if it is older than maxAge, or if the
+ * newer rows already fill maxTotalMb. With keepLast alone, everything beyond the newest keepLast goes (as --keep-last).
+ * Rows without a timestamp are never deleted for age.
+ */
+function selectKeysForPolicyRule(db: SqliteDb, rule: PolicyRule): { matched: number; toDelete: KeyRow[] } {
+  const selection = selectKeysForDeletion(db, rule.pattern, rule.table, rule.keepLast, rule.maxAgeCutoff);
+  const all = [...selection.toDelete, ...selection.toKeep, ...selection.undated].sort((a, b) => b.rowid - a.rowid);
+  const toDelete = new Map<number, KeyRow>();
+  if (rule.maxAgeCutoff || rule.maxTotalMb == null) {
+    for (const row of selection.toDelete) toDelete.set(row.rowid, row);
+  }
+  if (rule.maxTotalMb != null) {
+    const limitBytes = rule.maxTotalMb * 1024 * 1024;
+    let total = 0;
+    all.forEach((row, i) => {
+      total += row.bytes;
+      if (total > limitBytes && i >= (rule.keepLast ?? 0)) toDelete.set(row.rowid, row);
+    });
+  }
+  return { matched: all.length, toDelete: [...toDelete.values()] };
+}
+
+function describePolicyRule(rule: PolicyRule): string {
+  if (rule.neverTouch) return 'never touch';
+  const parts: string[] = [];
+  if (rule.keepLast != null) parts.push(`keep last ${rule.keepLast}`);
+  if (rule.maxAge) parts.push(`max age ${rule.maxAge}`);
+  if (rule.maxTotalMb != null) parts.push(`max ${rule.maxTotalMb} MB`);
+  return parts.join(', ');
+}
+
+/** What one policy rule selects in one database; neverTouch rules and rules whose table is missing delete nothing. */
+interface PolicyRuleResult {
+  pattern: string;
+  table: TableName;
+  neverTouch: boolean;
+  /** True when the database has no such table. */
+  skipped: boolean;
+  matched: number;
+  deleted: number;
+  deletedBytes: number;
+  /** Rows the rule selected but a neverTouch rule protects. */
+  protected: number;
+}
+
+/** What a retention policy removed (or, with dryRun, would remove) from one database. File sizes include -wal/-journal. */
+interface PolicyResult {
+  path: string;
+  label: string;
+  rules: PolicyRuleResult[];
+  /** Rows deleted across all rules (a row matched by several rules counts once) and their value bytes. */
+  deleted: number;
+  deletedBytes: number;
+  beforeBytes: number;
+  /** File size after VACUUM; with dryRun, the estimate. */
+  afterBytes: number;
+  dryRun: boolean;
+  /** Snapshot taken before the delete; null if nothing was deleted. */
+  backupId: string | null;
+  error: string | null;
+}
+
+/**
+ * Evaluate a retention policy against the global and/or workspace databases, report the plan and (unless dryRun) execute
+ * it: one backup, delete and VACUUM per database that has rows to delete. neverTouch rules win over all other rules.
+ * An invalid policy is thrown; a database that fails is reported in its result's error field and the others still run.
+ */
+function applyPolicy(
+  installation: Installation | null,
+  policyPath: string,
+  keepBackups: number,
+  dryRun: boolean,
+  archiveDir: string | null,
+  onProgress: ProgressCallback = logProgress
+): PolicyResult[] {
+  const rules = loadPolicy(policyPath);
+  const globalPath = getGlobalStatePath(installation);
+  const targets = getAllStateVscdbPaths(installation).filter(({ path: filePath }) =>
+    rules.some((r) => r.scope === 'all' || (r.scope === 'global') === (filePath === globalPath))
+  );
+  onProgress(`\n=== ${dryRun ? 'Dry run: ' : ''}Retention policy ${policyPath} (${rules.length} rule(s)) ===`);
+  if (targets.length === 0) {
+    onProgress('No state.vscdb matches the scopes in this policy.');
+    return [];
+  }
+
+  return targets.map(({ path: filePath, label }): PolicyResult => {
+    const isGlobal = filePath === globalPath;
+    const dbRules = rules.filter((r) => r.scope === 'all' || (r.scope === 'global') === isGlobal);
+    const beforeBytes = getDbFileSizes(filePath).totalBytes;
+    const result: PolicyResult = {
+      path: filePath,
+      label,
+      rules: [],
+      deleted: 0,
+      deletedBytes: 0,
+      beforeBytes,
+      afterBytes: beforeBytes,
+      dryRun,
+      backupId: null,
+      error: null,
+    };
+    onProgress(`\n${label}`);
+    onProgress(`  Path: ${filePath}`);
+    onProgress(`  Size: ${formatDbSize(filePath)}`);
+    try {
+      const plan = withDatabase(filePath, (db) => {
+        const tables = db.all<{ name: string }>("SELECT name FROM sqlite_master WHERE type='table';").map((r) => r.name);
+        const applicable = dbRules.filter((r) => tables.includes(r.table));
+        const protectedRowids = new Set<string>();
+        for (const rule of applicable.filter((r) => r.neverTouch)) {
+          const rows = db.all<{ rowid: number }>(`SELECT rowid FROM ${rule.table} WHERE key LIKE ? ESCAPE '\\';`, [rule.pattern]);
+          for (const { rowid } of rows) protectedRowids.add(`${rule.table}:${rowid}`);
+        }
+        const toDelete = new Map<string, KeyRow & { table: TableName }>();
+        for (const rule of applicable) {
+          const where = `${rule.pattern} (${rule.table})`.padEnd(40);
+          const ruleResult: PolicyRuleResult = {
+            pattern: rule.pattern,
+            table: rule.table,
+            neverTouch: rule.neverTouch,
+            skipped: false,
+            matched: 0,
+            deleted: 0,
+            deletedBytes: 0,
+            protected: 0,
+          };
+          result.rules.push(ruleResult);
+          if (rule.neverTouch) {
+            onProgress(`  ${where} never touch`);
+            continue;
+          }
+          const { matched, toDelete: rows } = selectKeysForPolicyRule(db, rule);
+          const allowed = rows.filter((r) => !protectedRowids.has(`${rule.table}:${r.rowid}`));
+          for (const row of allowed) toDelete.set(`${rule.table}:${row.rowid}`, { ...row, table: rule.table });
+          ruleResult.matched = matched;
+          ruleResult.deleted = allowed.length;
+          ruleResult.deletedBytes = allowed.reduce((sum, r) => sum + r.bytes, 0);
+          ruleResult.protected = rows.length - allowed.length;
+          onProgress(
+            `  ${where} ${describePolicyRule(rule)}: ${matched.toLocaleString()} match, delete ${allowed.length.toLocaleString()} ` +
+            `(${(ruleResult.deletedBytes / (1024 * 1024)).toFixed(2)} MB)` +
+            (ruleResult.protected > 0 ? `, ${ruleResult.protected.toLocaleString()} protected by neverTouch` : '')
+          );
+        }
+        for (const rule of dbRules.filter((r) => !tables.includes(r.table))) {
+          result.rules.push({
+            pattern: rule.pattern,
+            table: rule.table,
+            neverTouch: rule.neverTouch,
+            skipped: true,
+            matched: 0,
+            deleted: 0,
+            deletedBytes: 0,
+            protected: 0,
+          });
+          onProgress(`  ${`${rule.pattern} (${rule.table})`.padEnd(40)} skipped: no ${rule.table} table`);
+        }
+        const rows = [...toDelete.values()];
+        const bytes = rows.reduce((sum, r) => sum + r.bytes, 0);
+        return { rows, bytes, estAfterMb: estimateSizeAfterVacuumMb(db, bytes) };
+      }, true);
+      result.deleted = plan.rows.length;
+      result.deletedBytes = plan.bytes;
+      result.afterBytes = plan.rows.length > 0 ? Math.round(plan.estAfterMb * 1024 * 1024) : beforeBytes;
+      onProgress(`  Plan: delete ${plan.rows.length.toLocaleString()} row(s), est. after VACUUM ${plan.estAfterMb.toFixed(2)} MB`);
+      if (dryRun || plan.rows.length === 0) return result;
+
+      assertSafeToWrite(filePath, onProgress);
+      withDatabase(filePath, (db) => {
+        archiveConversations(db, plan.rows.filter((r) => r.table === 'cursorDiskKV').map((r) => r.key), archiveDir, onProgress);
+        result.backupId = createBackup(filePath, keepBackups, db, onProgress).id;
+        for (const table of ALLOWED_TABLES) {
+          const rowids = plan.rows.filter((r) => r.table === table).map((r) => r.rowid);
+          if (rowids.length > 0) deleteRowids(db, table, rowids);
+        }
+        vacuumDatabase(filePath, db, onProgress);
+      });
+    } catch (e) {
+      result.error = e instanceof Error ? e.message : String(e);
+      onProgress(`  Error: ${result.error}`);
+    }
+    if (result.backupId) result.afterBytes = getDbFileSizes(filePath).totalBytes;
+    return result;
+  });
+}
+
+/** --apply-policy: apply with the plan on the console, then the totals. Throws if any database failed. */
+function printApplyPolicy(installation: Installation | null, policyPath: string, keepBackups: number, dryRun: boolean, archiveDir: string | null): void {
+  const results = applyPolicy(installation, policyPath, keepBackups, dryRun, archiveDir);
+  if (results.length === 0) return;
+  const totalRows = results.reduce((sum, r) => sum + r.deleted, 0);
+  const totalBytes = results.reduce((sum, r) => sum + r.deletedBytes, 0);
+  console.log(`\nTotal: ${totalRows.toLocaleString()} row(s), ${(totalBytes / (1024 * 1024)).toFixed(2)} MB of values in ${results.length} database(s).`);
+  if (dryRun) console.log('Dry run: no changes were made.');
+  const failed = results.filter((r) => r.error != null).length;
+  if (failed > 0) throw new Error(`Policy could not be applied to ${failed} database(s).`);
+}
+
+interface IntegrityResult {
+  path: string;
+  label: string;
+  /** Database plus its -wal/-journal files; walBytes and journalBytes are the sidecars' share. */
+  sizeBytes: number;
+  walBytes: number;
+  journalBytes: number;
+  /** quick_check output ("ok" when clean); null if it could not run. */
+  quickCheck: string | null;
+  /** integrity_check output; null if skipped because quick_check already failed, or it could not run. */
+  integrityCheck: string | null;
+  ok: boolean;
+  error: string | null;
+}
+
+/** Run PRAGMA quick_check, then integrity_check if that passed. Read-only. */
+function collectIntegrity(filePath: string, label: string): IntegrityResult {
+  const { walBytes, journalBytes, totalBytes } = getDbFileSizes(filePath);
+  const result: IntegrityResult = {
+    path: filePath,
+    label,
+    sizeBytes: totalBytes,
+    walBytes,
+    journalBytes,
+    quickCheck: null,
+    integrityCheck: null,
+    ok: false,
+    error: null,
+  };
+  try {
+    withDatabase(
+      filePath,
+      (db) => {
+        result.quickCheck = runPragmaCheck(db, 'quick_check');
+        if (result.quickCheck !== 'ok') return;
+        result.integrityCheck = runPragmaCheck(db, 'integrity_check');
+        result.ok = result.integrityCheck === 'ok';
+      },
+      true
+    );
+  } catch (e) {
+    result.error = e instanceof Error ? e.message : String(e);
+  }
+  return result;
+}
+
+/**
+ * Run SQLite PRAGMA quick_check and integrity_check; report ok or first error. Close Cursor for reliable results.
+ * repairable marks the global DB, the one --repair can salvage, so its failure points there.
+ */
+function checkIntegrity(filePath: string, label: string, repairable: boolean): boolean {
+  const result = collectIntegrity(filePath, label);
+  console.log(`\n${label}`);
+  console.log(`  Path: ${filePath}`);
+  console.log(`  Size: ${formatDbSize(filePath)}`);
+
+  if (result.error) {
+    console.log('  ❌ Error running check:', result.error);
+    return false;
+  }
+  console.log(`  PRAGMA quick_check: ${result.quickCheck}`);
+  if (result.quickCheck !== 'ok') {
+    console.log('  ❌ Corruption or inconsistency detected (quick_check).');
+    if (repairable) printRepairHint();
+    return false;
+  }
+  const integrity = result.integrityCheck ?? '';
+  console.log(`  PRAGMA integrity_check: ${result.ok ? 'ok' : integrity.split('\n')[0] || integrity}`);
+  if (!result.ok) {
+    console.log('  ❌ Integrity check reported errors.');
+    if (repairable) printRepairHint();
+    return false;
+  }
+  console.log('  ✅ No corruption detected.');
+  return true;
+}
+
+function printRepairHint(): void {
+  console.log('  Salvage it into a fresh database (with Cursor closed): npx tsx scripts/prune-state-vscdb.ts --repair');
+}
+
+/** Cursor's schema for both key/value tables; used when the damaged file's own schema cannot be read. */
+const DEFAULT_TABLE_SQL = (table: TableName) => `CREATE TABLE ${table} (key TEXT UNIQUE ON CONFLICT REPLACE, value BLOB)`;
+
+interface SalvageResult {
+  table: TableName;
+  /** COUNT(*) on the damaged table, or null if even that failed. */
+  expected: number | null;
+  recovered: number;
+  /** rowid ranges that could not be read (each a damaged page or row). */
+  unreadableRanges: number;
+}
+
+/**
+ * Copy the damaged file and its -wal/-journal as-is into the backup folder (VACUUM INTO cannot read a corrupt
+ * database). The sidecars are named after the copy, so SQLite opens the set together.
+ */
+function createRawBackup(filePath: string, keepBackups: number, onProgress: ProgressCallback = logProgress): BackupInfo {
+  const { id, dest } = allocateBackup(filePath, '-damaged');
+  copyFileSync(filePath, dest);
+  for (const suffix of ['-wal', '-journal']) {
+    if (existsSync(`${filePath}${suffix}`)) copyFileSync(`${filePath}${suffix}`, `${dest}${suffix}`);
+  }
+  const backup: BackupInfo = { id, path: dest, dbPath: filePath, sizeMb: getFileSizeMb(dest) };
+  onProgress(`  Backup:      ${backup.id} (${backup.sizeMb.toFixed(2)} MB, copied as-is) -> ${dest}`);
+  pruneBackups(filePath, keepBackups, onProgress);
+  return backup;
+}
+
+/**
+ * Copy every readable row of table from src to dst, keeping rowids. Reads in rowid order; when a batch hits a damaged
+ * page, that rowid range is split in halves until the readable rows are saved and the unreadable ones isolated.
+ */
+function salvageTable(src: SqliteDb, dst: SqliteDb, table: TableName): SalvageResult {
+  const result: SalvageResult = { table, expected: null, recovered: 0, unreadableRanges: 0 };
+  try {
+    result.expected = src.all<{ count: number }>(`SELECT COUNT(*) AS count FROM ${table};`)[0]?.count ?? 0;
+  } catch {
+    // counted below as far as the rows can be read
+  }
+  const select = `SELECT rowid, key, typeof(value) AS type, hex(value) AS hex,
+    CASE WHEN typeof(value) IN ('integer', 'real') THEN value END AS num FROM ${table}`;
+  type RawRow = { rowid: number; key: string; type: string; hex: string; num: number | null };
+  const copy = (rows: RawRow[]) => {
+    for (let i = 0; i < rows.length; i += 100) {
+      const batch = rows.slice(i, i + 100);
+      const params: SqlValue[] = [];
+      for (const r of batch) {
+        const bytes = Buffer.from(r.hex ?? '', 'hex');
+        const value = r.type === 'blob' ? new Uint8Array(bytes) : r.type === 'text' ? bytes.toString('utf-8') : r.num;
+        params.push(r.rowid, r.key, value);
+      }
+      dst.run(`INSERT OR REPLACE INTO ${table} (rowid, key, value) VALUES ${batch.map(() => '(?, ?, ?)').join(', ')};`, params);
+    }
+    result.recovered += rows.length;
+  };
+  const salvageRange = (lo: number, hi: number): void => {
+    try {
+      copy(src.all<RawRow>(`${select} WHERE rowid BETWEEN ? AND ? ORDER BY rowid;`, [lo, hi]));
+    } catch {
+      if (lo === hi) {
+        result.unreadableRanges++;
+        return;
+      }
+      const mid = Math.floor((lo + hi) / 2);
+      salvageRange(lo, mid);
+      salvageRange(mid + 1, hi);
+    }
+  };
+
+  let bounds: { lo: number | null; hi: number | null };
+  try {
+    [bounds] = src.all<{ lo: number | null; hi: number | null }>(`SELECT MIN(rowid) AS lo, MAX(rowid) AS hi FROM ${table};`);
+  } catch {
+    result.unreadableRanges++;
+    return result;
+  }
+  if (bounds.lo == null || bounds.hi == null) return result;
+  const maxRowid = bounds.hi;
+  let next = bounds.lo;
+  while (next <= maxRowid) {
+    try {
+      const rows = src.all<RawRow>(`${select} WHERE rowid >= ? ORDER BY rowid LIMIT 500;`, [next]);
+      if (rows.length === 0) break;
+      copy(rows);
+      next = rows[rows.length - 1].rowid + 1;
+    } catch {
+      salvageRange(next, Math.min(next + 499, maxRowid));
+      next += 500;
+    }
+  }
+  return result;
+}
+
+/** Outcome of a --repair run. */
+interface RepairResult {
+  path: string;
+  /** False when the integrity check passed and the file was left alone. */
+  damaged: boolean;
+  /** What the integrity check of the damaged file reported. */
+  problems: string[];
+  /** Rows recovered per table; empty if the repair stopped before salvaging. */
+  tables: SalvageResult[];
+  /** integrity_check of the rebuilt file; null if it was not built. */
+  check: string | null;
+  repaired: boolean;
+  /** Copy of the damaged file (restore with --restore); null if none was taken. */
+  backupId: string | null;
+  /** Why the database could not be repaired; nothing was changed then. */
+  error: string | null;
+}
+
+/**
+ * Rebuild a damaged database: copy it as-is to the backups, salvage every readable ItemTable / cursorDiskKV row into a
+ * new file with the same schema, verify that file with integrity_check and only then swap it in. A healthy database
+ * is left alone. If it cannot be repaired, error says why and nothing is changed.
+ */
+function repairDatabase(filePath: string, keepBackups: number, onProgress: ProgressCallback = logProgress): RepairResult {
+  const result: RepairResult = {
+    path: filePath,
+    damaged: false,
+    problems: [],
+    tables: [],
+    check: null,
+    repaired: false,
+    backupId: null,
+    error: null,
+  };
+  const before = collectIntegrity(filePath, basename(filePath));
+  if (before.ok) {
+    onProgress('Integrity check passed: the database is not damaged. Nothing to repair.');
+    return result;
+  }
+  result.damaged = true;
+  result.problems = (before.error ?? before.integrityCheck ?? before.quickCheck ?? '').split('\n').filter((l) => !l.startsWith('***'));
+  const problems = result.problems;
+  onProgress(`Integrity check: ${problems[0] ?? 'failed'}${problems.length > 1 ? ` (+${problems.length - 1} more)` : ''}`);
+
+  const inUse = (): boolean => {
+    try {
+      // Corruption errors are expected here; only a lock held by another process means Cursor is still running.
+      withDatabase(filePath, (db) => db.exec('PRAGMA locking_mode=EXCLUSIVE;\nBEGIN EXCLUSIVE;\nROLLBACK;'));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (/locked|busy/i.test(message)) {
+        result.error = `${filePath} is in use (${message.trim()}). Close Cursor/VS Code and try again. Nothing was changed.`;
+        return true;
+      }
+    }
+    return false;
+  };
+  // Check the lock before touching the backups folder. Taking the lock rolls back a leftover -journal, though, so in
+  // that case the file is copied as it is first.
+  const hotJournal = hasHotJournal(filePath);
+  if (!hotJournal && inUse()) return result;
+  onProgress('\nBacking up the damaged file...');
+  const backup = createRawBackup(filePath, keepBackups, onProgress);
+  result.backupId = backup.id;
+  if (hotJournal && inUse()) return result;
+
+  const tmpPath = `${filePath}.repair-tmp`;
+  for (const suffix of ['', '-journal', '-wal', '-shm']) {
+    if (existsSync(`${tmpPath}${suffix}`)) unlinkSync(`${tmpPath}${suffix}`);
+  }
+  let check: string;
+  try {
+    result.tables = withDatabase(filePath, (src) =>
+      withDatabase(tmpPath, (dst) => {
+        let schema: { name: string; sql: string }[] = [];
+        try {
+          schema = src.all<{ name: string; sql: string }>(
+            "SELECT name, sql FROM sqlite_master WHERE type = 'table' AND name IN ('ItemTable', 'cursorDiskKV');"
+          );
+        } catch {
+          onProgress('  Schema unreadable; using the standard ItemTable / cursorDiskKV schema.');
+        }
+        const out: SalvageResult[] = [];
+        for (const table of ALLOWED_TABLES) {
+          const sql = schema.find((s) => s.name === table)?.sql;
+          // Cursor's global DB always has both tables; a workspace DB may lack cursorDiskKV.
+          if (!sql && schema.length > 0 && table === 'cursorDiskKV') continue;
+          dst.exec(`${sql ?? DEFAULT_TABLE_SQL(table)};`);
+          onProgress(`  Recovering ${table}...`);
+          out.push(salvageTable(src, dst, table));
+        }
+        return out;
+      })
+    );
+    check = withDatabase(tmpPath, (db) => runPragmaCheck(db, 'integrity_check'));
+  } catch (error) {
+    if (existsSync(tmpPath)) unlinkSync(tmpPath);
+    result.error =
+      `Repair failed: ${error instanceof Error ? error.message : String(error)}\n` +
+      `Nothing was changed. The damaged file is also saved as backup ${backup.id}.`;
+    return result;
+  }
+
+  onProgress('\nTable          | Expected   | Recovered  | Lost       | Unreadable ranges');
+  onProgress('---------------|------------|------------|------------|------------------');
+  for (const r of result.tables) {
+    const lost = r.expected != null ? Math.max(0, r.expected - r.recovered).toLocaleString() : 'unknown';
+    onProgress(
+      `${r.table.padEnd(15)}| ${(r.expected?.toLocaleString() ?? 'unknown').padStart(10)} | ${r.recovered.toLocaleString().padStart(10)} | ` +
+      `${lost.padStart(10)} | ${String(r.unreadableRanges).padStart(17)}`
+    );
+  }
+  if (result.tables.every((r) => r.recovered === 0)) {
+    unlinkSync(tmpPath);
+    result.error = `No rows could be read from the damaged file. Nothing was changed (damaged copy: backup ${backup.id}).`;
+    return result;
+  }
+  result.check = check;
+  onProgress(`\nIntegrity check of the rebuilt database: ${check.split('\n')[0]}`);
+  if (check !== 'ok') {
+    unlinkSync(tmpPath);
+    result.error = `The rebuilt database did not pass the integrity check. Nothing was changed (damaged copy: backup ${backup.id}).`;
+    return result;
+  }
+
+  // The damaged file's WAL/journal are in the backup; left in place they would be applied to the new file.
+  for (const suffix of ['-wal', '-shm', '-journal']) {
+    if (existsSync(`${filePath}${suffix}`)) unlinkSync(`${filePath}${suffix}`);
+  }
+  renameSync(tmpPath, filePath);
+  result.repaired = true;
+  return result;
+}
+
+/** --repair: repair with progress on the console. Returns false if the database could not be repaired. */
+function printRepairDatabase(filePath: string, keepBackups: number): boolean {
+  console.log(`\n=== Repair ${filePath} ===\n`);
+  console.log(`Size: ${formatDbSize(filePath)}`);
+  const result = repairDatabase(filePath, keepBackups);
+  if (result.error) {
+    // Set the error apart from the recovery table, unless the integrity check line already follows it.
+    console.error(result.tables.length > 0 && result.check == null ? `\n${result.error}` : result.error);
+    return false;
+  }
+  if (result.repaired) console.log(`✅ Repaired. Size: ${formatDbSize(filePath)}. Undo with: --restore ${result.backupId}`);
+  return true;
+}
+
+const CATEGORIES: { table: TableName; pattern: string; label: string }[] = [
+  { table: 'cursorDiskKV', pattern: 'bubbleId:%', label: 'bubbleId:% (cursorDiskKV) - chat bubbles' },
+  { table: 'cursorDiskKV', pattern: 'checkpointId:%', label: 'checkpointId:% (cursorDiskKV) - Composer checkpoints' },
+  { table: 'cursorDiskKV', pattern: 'composerData:%', label: 'composerData:% (cursorDiskKV) - Composer session metadata' },
+  { table: 'cursorDiskKV', pattern: 'agentKv:blob:%', label: 'agentKv:blob:% (cursorDiskKV) - agent/blob cache' },
+  { table: 'ItemTable', pattern: 'cursor.composer%', label: 'cursor.composer% (ItemTable) - small UI state' },
+];
+
+interface CategoryCount {
+  table: TableName;
+  pattern: string;
+  label: string;
+  count: number;
+  bytes: number;
+  error: string | null;
+}
+
+/** Run SELECT COUNT(*) and SUM(LENGTH(value)) for each category. Read-only. */
+function collectCategoryCounts(db: SqliteDb): CategoryCount[] {
+  return CATEGORIES.map(({ table, pattern, label }) => {
+    try {
+      const [row] = db.all<{ count: number; bytes: number }>(
+        `SELECT COUNT(*) AS count, COALESCE(SUM(LENGTH(value)), 0) AS bytes FROM ${table} WHERE key LIKE ? ESCAPE '\\';`,
+        [pattern]
+      );
+      return { table, pattern, label, count: row?.count ?? 0, bytes: row?.bytes ?? 0, error: null };
+    } catch (e) {
+      return { table, pattern, label, count: 0, bytes: 0, error: e instanceof Error ? e.message : String(e) };
+    }
+  });
+}
+
+/** Run SELECT COUNT(*) and SUM(LENGTH(value)) for each category and display to the user. Read-only. */
+function printCategoryCounts(filePath: string): void {
+  console.log('\n=== Item counts by category (global state.vscdb) ===\n');
+  console.log(`Path: ${filePath}`);
+  console.log(`File size: ${formatDbSize(filePath)}\n`);
+  console.log('Category                                          | Count      | Est. size (MB)');
+  console.log('--------------------------------------------------|------------|----------------');
+
+  for (const { label, count, bytes, error } of countCategories(filePath)) {
+    if (error) {
+      console.log(`${label.slice(0, 50).padEnd(50)} | Error: ${error}`);
+      continue;
+    }
+    const labelPadded = (label.slice(0, 49) + ' ').slice(0, 50);
+    const countStr = count.toLocaleString().padStart(10);
+    const mbStr = (bytes / (1024 * 1024)).toFixed(2).padStart(14);
+    console.log(`${labelPadded} | ${countStr} | ${mbStr}`);
+  }
+  console.log('');
+}
+
+/** Prefix depth of key families unless --depth says otherwise (bubbleId:%:%, agentKv:blob:%). */
+const DEFAULT_FAMILY_DEPTH = 2;
+
+/** A group of keys sharing their first segments (split after each ':' and '.'), e.g. agentKv:blob:% at depth 2. */
+interface KeyFamily {
+  table: TableName;
+  /** LIKE pattern selecting the family; usable as --delete-keys with --table. ID-like segments become %. */
+  pattern: string;
+  count: number;
+  bytes: number;
+  /** How many of its keys a known category (CATEGORIES) already matches. */
+  knownCount: number;
+  children: KeyFamily[];
+}
+
+/** Segments that identify one item (UUIDs, hashes, numbers) rather than a key family. */
+function isIdSegment(segment: string): boolean {
+  return (
+    UUID_RE.test(segment) ||
+    /^[0-9a-f]{16,}$/i.test(segment) ||
+    /^\d+$/.test(segment) ||
+    (segment.length >= 24 && /\d/.test(segment) && /^[\w+/=-]+$/.test(segment))
+  );
+}
+
+/** Escape LIKE wildcards (% and _) and the escape character itself in text that must match literally (ESCAPE '\'). */
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, '\\$&');
+}
+
+/** A pattern for display on one line: control characters JSON-escaped, backslashes left as typed so it can be copied as is. */
+function formatPattern(pattern: string): string {
+  return pattern.replace(/[\x00-\x1f]/g, (c) => JSON.stringify(c).slice(1, -1));
+}
+
+/** SQLite LIKE semantics (% and _, ASCII case-insensitive, \ escaping the next character as with ESCAPE '\') as a RegExp. */
+function likeToRegExp(pattern: string): RegExp {
+  const source = (pattern.match(/\\[\s\S]|[\s\S]/g) ?? [])
+    .map((token) => {
+      if (token === '%') return '[\\s\\S]*';
+      if (token === '_') return '[\\s\\S]';
+      return token.slice(-1).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/** LIKE patterns of the families key belongs to, outermost first, at most depth of them (e.g. bubbleId:%, bubbleId:%:%). */
+function getKeyFamilyPatterns(key: string, depth: number): string[] {
+  const patterns: string[] = [];
+  let prefix = '';
+  let parentPattern = '';
+  for (const segment of (key.match(/[^:.]*[:.]|[^:.]+$/g) ?? ['']).slice(0, depth)) {
+    const sep = /[:.]$/.test(segment) ? segment.slice(-1) : '';
+    const body = sep ? segment.slice(0, -1) : segment;
+    prefix += (isIdSegment(body) ? '%' : escapeLike(body)) + sep;
+    const pattern = sep ? `${prefix}%` : prefix;
+    // A trailing ID segment (composerData:<id>) selects the same rows as its parent; do not repeat it as a child.
+    if (pattern === parentPattern) break;
+    parentPattern = pattern;
+    patterns.push(pattern);
+  }
+  return patterns;
+}
+
+/** KeyFamily while it is being built: children keyed by pattern. */
+interface KeyFamilyNode extends Omit<KeyFamily, 'children'> {
+  children: Map<string, KeyFamilyNode>;
+}
+
+/**
+ * Group every key in ItemTable and cursorDiskKV into a tree of key families, depth levels deep, ranked by bytes.
+ * A key like bubbleId:<composer>:<bubble> lands in bubbleId:% and, at depth 2, bubbleId:%:%. Read-only.
+ */
+function discoverKeyFamilies(db: SqliteDb, depth: number): KeyFamily[] {
+  const tables = db.all<{ name: string }>("SELECT name FROM sqlite_master WHERE type='table';").map((r) => r.name);
+  const roots: KeyFamilyNode[] = [];
+  for (const table of ALLOWED_TABLES) {
+    if (!tables.includes(table)) continue;
+    const known = CATEGORIES.filter((c) => c.table === table).map((c) => likeToRegExp(c.pattern));
+    const top = new Map<string, KeyFamilyNode>();
+    const rows = db.all<{ key: string; bytes: number }>(`SELECT key, COALESCE(LENGTH(value), 0) AS bytes FROM ${table};`);
+    for (const { key, bytes } of rows) {
+      const isKnown = known.some((re) => re.test(String(key)));
+      let level = top;
+      for (const pattern of getKeyFamilyPatterns(String(key), depth)) {
+        let family = level.get(pattern);
+        if (!family) {
+          family = { table, pattern, count: 0, bytes: 0, knownCount: 0, children: new Map() };
+          level.set(pattern, family);
+        }
+        family.count++;
+        family.bytes += bytes;
+        if (isKnown) family.knownCount++;
+        level = family.children;
+      }
+    }
+    roots.push(...top.values());
+  }
+  const finalize = (nodes: Iterable<KeyFamilyNode>): KeyFamily[] =>
+    [...nodes].map((node) => ({ ...node, children: finalize(node.children.values()) })).sort((a, b) => b.bytes - a.bytes);
+  return finalize(roots);
+}
+
+/** Print the key family tree; families no known category covers are marked NEW (partly covered ones: PARTLY). */
+function printKeyFamilies(families: KeyFamily[], depth: number, topN = 30, childN = 5): void {
+  console.log(`\n=== Key families (by prefix, depth ${depth}) ===\n`);
+  console.log(`${'Family (LIKE pattern)'.padEnd(50)} ${'Table'.padEnd(12)} ${'Rows'.padStart(10)} ${'Size (MB)'.padStart(10)}  Known`);
+  console.log(`${'-'.repeat(50)} ${'-'.repeat(12)} ${'-'.repeat(10)} ${'-'.repeat(10)}  -----`);
+  const print = (family: KeyFamily, indent: number, limit: number) => {
+    const label = `${' '.repeat(indent * 2)}${formatPattern(family.pattern)}`;
+    const known = family.knownCount === family.count ? 'yes' : family.knownCount > 0 ? 'PARTLY' : 'NEW';
+    console.log(
+      `${(label.length > 50 ? label.slice(0, 47) + '...' : label).padEnd(50)} ${family.table.padEnd(12)} ` +
+      `${family.count.toLocaleString().padStart(10)} ${(family.bytes / (1024 * 1024)).toFixed(2).padStart(10)}  ${known}`
+    );
+    for (const child of family.children.slice(0, limit)) print(child, indent + 1, limit);
+    const rest = family.children.length - limit;
+    if (rest > 0) console.log(`${' '.repeat((indent + 1) * 2)}... ${rest.toLocaleString()} more`);
+  };
+  for (const family of families.slice(0, topN)) print(family, 0, childN);
+  if (families.length > topN) console.log(`... ${(families.length - topN).toLocaleString()} more families`);
+
+  const unknown = families.filter((f) => f.knownCount === 0);
+  const unknownMb = unknown.reduce((sum, f) => sum + f.bytes, 0) / (1024 * 1024);
+  console.log(`\n${unknown.length} famil${unknown.length === 1 ? 'y' : 'ies'} (${unknownMb.toFixed(2)} MB) not covered by the known categories.`);
+  console.log('Any family can be deleted by its pattern, e.g.:');
+  console.log('  npx tsx scripts/prune-state-vscdb.ts --table <Table> --delete-keys "<pattern>" --dry-run');
+}
+
+/** Discover and print the key families of filePath. Read-only. */
+function discoverKeys(filePath: string, depth: number): void {
+  console.log('\n=== Key discovery (global state.vscdb) ===\n');
+  console.log(`Path: ${filePath}`);
+  console.log(`File size: ${formatDbSize(filePath)}`);
+  printKeyFamilies(withDatabase(filePath, (db) => discoverKeyFamilies(db, depth), true), depth);
+}
+
+const HISTORY_VERSION = 1;
+const WEEK_MS = 7 * 86400_000;
+
+/** One line of the history file: the size of one database at one --record run. */
+interface HistoryEntry {
+  version: number;
+  recordedAt: string;
+  path: string;
+  label: string;
+  /** Database plus its -wal/-journal files. */
+  sizeBytes: number;
+  /** Per-category counts and bytes (global DB only; null for workspace DBs). */
+  categories: { table: TableName; pattern: string; count: number; bytes: number }[] | null;
+}
+
+interface CategoryTrend {
+  table: TableName;
+  pattern: string;
+  firstCount: number;
+  lastCount: number;
+  firstBytes: number;
+  lastBytes: number;
+  bytesPerWeek: number | null;
+}
+
+interface DatabaseTrend {
+  path: string;
+  label: string;
+  runs: number;
+  firstAt: string;
+  lastAt: string;
+  firstBytes: number;
+  lastBytes: number;
+  /** Least-squares growth over all recorded runs; null with fewer than two runs at different times. */
+  bytesPerWeek: number | null;
+  overThreshold: boolean;
+  /** When the size is projected to reach the threshold at the current rate; null if over it already or not growing. */
+  crossesThresholdAt: string | null;
+  /** Size after each run (last 10), for the global DB report. */
+  recent: { recordedAt: string; sizeBytes: number }[];
+  categories: CategoryTrend[];
+}
+
+/** History lives next to the global DB, like its backups, so it survives between runs and follows the Cursor profile. */
+function getHistoryPath(globalPath: string): string {
+  return join(dirname(globalPath), 'state.vscdb.history.jsonl');
+}
+
+/** Append the global DB's category counts and every state.vscdb's size to the history file. */
+function recordHistory(installation: Installation | null, globalPath: string, onProgress: ProgressCallback = logProgress): void {
+  const historyPath = getHistoryPath(globalPath);
+  const recordedAt = new Date().toISOString();
+  const lines: string[] = [];
+  for (const { path: filePath, label } of getAllStateVscdbPaths(installation)) {
+    const categories =
+      filePath === globalPath
+        ? withDatabase(filePath, collectCategoryCounts, true)
+            .filter((c) => !c.error)
+            .map(({ table, pattern, count, bytes }) => ({ table, pattern, count, bytes }))
+        : null;
+    const entry: HistoryEntry = { version: HISTORY_VERSION, recordedAt, path: filePath, label, sizeBytes: getDbFileSizes(filePath).totalBytes, categories };
+    lines.push(JSON.stringify(entry));
+  }
+  appendFileSync(historyPath, lines.map((l) => `${l}\n`).join(''));
+  onProgress(`\nRecorded ${lines.length} database(s) in history: ${historyPath}`);
+}
+
+/** Read the history file; lines that are not valid entries (e.g. a torn write) are skipped. */
+function loadHistory(historyPath: string): HistoryEntry[] {
+  if (!existsSync(historyPath)) return [];
+  const entries: HistoryEntry[] = [];
+  for (const line of readFileSync(historyPath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as HistoryEntry;
+      if (entry.version === HISTORY_VERSION && typeof entry.path === 'string' && !isNaN(Date.parse(entry.recordedAt))) entries.push(entry);
+    } catch {
+      // skip
+    }
+  }
+  return entries.sort((a, b) => Date.parse(a.recordedAt) - Date.parse(b.recordedAt));
+}
+
+/** Least-squares slope of value over time, in units per week. */
+function growthPerWeek(points: { at: number; value: number }[]): number | null {
+  if (points.length < 2) return null;
+  const meanAt = points.reduce((sum, p) => sum + p.at, 0) / points.length;
+  const meanValue = points.reduce((sum, p) => sum + p.value, 0) / points.length;
+  const variance = points.reduce((sum, p) => sum + (p.at - meanAt) ** 2, 0);
+  if (variance === 0) return null;
+  const covariance = points.reduce((sum, p) => sum + (p.at - meanAt) * (p.value - meanValue), 0);
+  return Math.round((covariance / variance) * WEEK_MS);
+}
+
+/** Growth of every recorded database (and of each category in the global DB) across the history. Global DB first, then fastest growing. */
+function collectTrends(globalPath: string, thresholdMb: number): DatabaseTrend[] {
+  const byPath = new Map<string, HistoryEntry[]>();
+  for (const entry of loadHistory(getHistoryPath(globalPath))) {
+    byPath.set(entry.path, [...(byPath.get(entry.path) ?? []), entry]);
+  }
+  const thresholdBytes = thresholdMb * 1024 * 1024;
+  const trends: DatabaseTrend[] = [];
+  for (const [path, entries] of byPath) {
+    const first = entries[0];
+    const last = entries[entries.length - 1];
+    const lastAt = Date.parse(last.recordedAt);
+    const bytesPerWeek = growthPerWeek(entries.map((e) => ({ at: Date.parse(e.recordedAt), value: e.sizeBytes })));
+    const overThreshold = last.sizeBytes >= thresholdBytes;
+    const crossesThresholdAt =
+      !overThreshold && bytesPerWeek != null && bytesPerWeek > 0
+        ? new Date(lastAt + ((thresholdBytes - last.sizeBytes) / bytesPerWeek) * WEEK_MS).toISOString()
+        : null;
+    const categories: CategoryTrend[] = [];
+    for (const { table, pattern } of CATEGORIES) {
+      const points = entries.flatMap((e) => {
+        const c = e.categories?.find((x) => x.table === table && x.pattern === pattern);
+        return c ? [{ at: Date.parse(e.recordedAt), count: c.count, bytes: c.bytes }] : [];
+      });
+      if (points.length === 0) continue;
+      categories.push({
+        table,
+        pattern,
+        firstCount: points[0].count,
+        lastCount: points[points.length - 1].count,
+        firstBytes: points[0].bytes,
+        lastBytes: points[points.length - 1].bytes,
+        bytesPerWeek: growthPerWeek(points.map((p) => ({ at: p.at, value: p.bytes }))),
+      });
+    }
+    trends.push({
+      path,
+      label: last.label,
+      runs: entries.length,
+      firstAt: first.recordedAt,
+      lastAt: last.recordedAt,
+      firstBytes: first.sizeBytes,
+      lastBytes: last.sizeBytes,
+      bytesPerWeek,
+      overThreshold,
+      crossesThresholdAt,
+      recent: entries.slice(-10).map(({ recordedAt, sizeBytes }) => ({ recordedAt, sizeBytes })),
+      categories: categories.sort((a, b) => (b.bytesPerWeek ?? 0) - (a.bytesPerWeek ?? 0)),
+    });
+  }
+  return trends.sort((a, b) => Number(b.path === globalPath) - Number(a.path === globalPath) || (b.bytesPerWeek ?? 0) - (a.bytesPerWeek ?? 0));
+}
+
+function formatMbPerWeek(bytesPerWeek: number | null): string {
+  if (bytesPerWeek == null) return '-';
+  const mb = bytesPerWeek / (1024 * 1024);
+  return `${mb >= 0 ? '+' : ''}${mb.toFixed(2)}`;
+}
+
+function describeThreshold(trend: DatabaseTrend, thresholdMb: number): string {
+  if (trend.overThreshold) return `already over ${thresholdMb} MB`;
+  if (!trend.crossesThresholdAt) return trend.bytesPerWeek == null ? 'needs 2+ runs' : 'not growing';
+  const days = Math.max(0, Math.round((Date.parse(trend.crossesThresholdAt) - Date.now()) / 86400_000));
+  return `reaches ${thresholdMb} MB ~${trend.crossesThresholdAt.slice(0, 10)} (in ${days} days)`;
+}
+
+/** Print growth per database and per category from the --record history, and when each database reaches thresholdMb. */
+function trendReport(globalPath: string, thresholdMb: number): void {
+  const historyPath = getHistoryPath(globalPath);
+  const trends = collectTrends(globalPath, thresholdMb);
+  console.log('\n=== state.vscdb growth trend ===\n');
+  console.log(`History: ${historyPath}`);
+  console.log(`Threshold: ${thresholdMb} MB`);
+  if (trends.length === 0) {
+    console.log('\nNo history yet. Add --record to --analyze or --count-categories runs (e.g. weekly) to build it.');
+    return;
+  }
+  const toMb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(2);
+
+  const global = trends.find((t) => t.path === globalPath);
+  if (global) {
+    console.log(`\n${global.label}`);
+    console.log(`  Path: ${global.path}`);
+    console.log(`  Runs: ${global.runs} (${global.firstAt.slice(0, 10)} to ${global.lastAt.slice(0, 10)})`);
+    console.log(`  Size: ${toMb(global.firstBytes)} MB -> ${toMb(global.lastBytes)} MB (${formatMbPerWeek(global.bytesPerWeek)} MB/week)`);
+    console.log(`  Threshold: ${describeThreshold(global, thresholdMb)}`);
+    console.log('\n  Run                   Size (MB)   Change (MB)');
+    global.recent.forEach((r, i) => {
+      const change = i > 0 ? r.sizeBytes - global.recent[i - 1].sizeBytes : null;
+      const changeStr = change == null ? '-' : `${change >= 0 ? '+' : ''}${toMb(change)}`;
+      console.log(`  ${r.recordedAt.slice(0, 19).replace('T', ' ').padEnd(20)} ${toMb(r.sizeBytes).padStart(10)}   ${changeStr.padStart(11)}`);
+    });
+    if (global.categories.length > 0) {
+      console.log('\n  Category            | Rows (first -> last)   | MB (first -> last)     | MB/week');
+      console.log('  --------------------|------------------------|------------------------|---------');
+      for (const c of global.categories) {
+        const rows = `${c.firstCount.toLocaleString()} -> ${c.lastCount.toLocaleString()}`;
+        const mb = `${toMb(c.firstBytes)} -> ${toMb(c.lastBytes)}`;
+        console.log(`  ${c.pattern.padEnd(20)}| ${rows.padEnd(23)}| ${mb.padEnd(23)}| ${formatMbPerWeek(c.bytesPerWeek).padStart(8)}`);
+      }
+    }
+  }
+
+  const others = trends.filter((t) => t.path !== globalPath);
+  if (others.length > 0) {
+    console.log('\nOther databases (fastest growing first):\n');
+    console.log(`${'Database'.padEnd(60)} ${'Runs'.padStart(5)} ${'Size (MB)'.padStart(10)} ${'MB/week'.padStart(9)}  Threshold`);
+    for (const t of others) {
+      const label = t.label.length > 60 ? `...${t.label.slice(-57)}` : t.label;
+      console.log(
+        `${label.padEnd(60)} ${String(t.runs).padStart(5)} ${toMb(t.lastBytes).padStart(10)} ${formatMbPerWeek(t.bytesPerWeek).padStart(9)}  ${describeThreshold(t, thresholdMb)}`
+      );
+    }
+  }
+}
+
+/** How one key's value changed between two snapshots. Size only: a value rewritten at the same length is not reported. */
+interface KeyChange {
+  table: TableName;
+  key: string;
+  change: 'added' | 'removed' | 'grown' | 'shrunk';
+  oldBytes: number;
+  newBytes: number;
+  deltaBytes: number;
+}
+
+/** Changed keys and their byte deltas within a table, category or key family. */
+interface ChangeTotals {
+  added: number;
+  /** Value bytes of the added keys. */
+  addedBytes: number;
+  removed: number;
+  /** Value bytes the removed keys had. */
+  removedBytes: number;
+  grown: number;
+  /** Sum of the increases of the grown keys. */
+  grownBytes: number;
+  shrunk: number;
+  /** Sum of the decreases of the shrunk keys (positive). */
+  shrunkBytes: number;
+  /** Net change: addedBytes + grownBytes - removedBytes - shrunkBytes. */
+  deltaBytes: number;
+}
+
+interface TableDiff extends ChangeTotals {
+  table: TableName;
+  oldKeys: number;
+  newKeys: number;
+  oldValueBytes: number;
+  newValueBytes: number;
+}
+
+interface CategoryDiff extends ChangeTotals {
+  table: TableName;
+  pattern: string;
+}
+
+interface DatabaseDiff {
+  oldPath: string;
+  newPath: string;
+  /** Database plus its -wal/-journal files. */
+  oldSizeBytes: number;
+  newSizeBytes: number;
+  depth: number;
+  tables: TableDiff[];
+  /** The known categories (CATEGORIES), in their usual order. */
+  categories: CategoryDiff[];
+  /** Key families (see discoverKeyFamilies) with at least one change, largest net change (either way) first. */
+  families: CategoryDiff[];
+  /** The topN keys with the largest change (either way). */
+  topChanges: KeyChange[];
+}
+
+function emptyChangeTotals(): ChangeTotals {
+  return { added: 0, addedBytes: 0, removed: 0, removedBytes: 0, grown: 0, grownBytes: 0, shrunk: 0, shrunkBytes: 0, deltaBytes: 0 };
+}
+
+function addChange(totals: ChangeTotals, change: KeyChange): void {
+  if (change.change === 'added') {
+    totals.added++;
+    totals.addedBytes += change.newBytes;
+  } else if (change.change === 'removed') {
+    totals.removed++;
+    totals.removedBytes += change.oldBytes;
+  } else if (change.change === 'grown') {
+    totals.grown++;
+    totals.grownBytes += change.deltaBytes;
+  } else {
+    totals.shrunk++;
+    totals.shrunkBytes -= change.deltaBytes;
+  }
+  totals.deltaBytes += change.deltaBytes;
+}
+
+/** Value size of every key in ItemTable and cursorDiskKV; a table the database does not have is left out. Read-only. */
+function collectKeySizes(db: SqliteDb): Map<TableName, Map<string, number>> {
+  const tables = db.all<{ name: string }>("SELECT name FROM sqlite_master WHERE type='table';").map((r) => r.name);
+  const sizes = new Map<TableName, Map<string, number>>();
+  for (const table of ALLOWED_TABLES) {
+    if (!tables.includes(table)) continue;
+    const rows = db.all<{ key: string; bytes: number }>(`SELECT key, COALESCE(LENGTH(value), 0) AS bytes FROM ${table};`);
+    sizes.set(table, new Map(rows.map(({ key, bytes }) => [String(key), bytes])));
+  }
+  return sizes;
+}
+
+/**
+ * Compare two snapshots of a state.vscdb key by key: added, removed, grown and shrunk keys per table, per known category
+ * and per key family (depth levels deep), plus the topN largest changes. Read-only on both files.
+ */
+function collectDiff(oldPath: string, newPath: string, depth = DEFAULT_FAMILY_DEPTH, topN = 30): DatabaseDiff {
+  const before = withDatabase(oldPath, collectKeySizes, true);
+  const after = withDatabase(newPath, collectKeySizes, true);
+  const tables: TableDiff[] = [];
+  const categories: CategoryDiff[] = CATEGORIES.map(({ table, pattern }) => ({ table, pattern, ...emptyChangeTotals() }));
+  const categoryRes = CATEGORIES.map((c) => likeToRegExp(c.pattern));
+  const families = new Map<string, CategoryDiff>();
+  const changes: KeyChange[] = [];
+
+  for (const table of ALLOWED_TABLES) {
+    const oldKeys = before.get(table) ?? new Map<string, number>();
+    const newKeys = after.get(table) ?? new Map<string, number>();
+    if (!before.has(table) && !after.has(table)) continue;
+    const sum = (keys: Map<string, number>) => [...keys.values()].reduce((total, bytes) => total + bytes, 0);
+    const totals: TableDiff = {
+      table,
+      oldKeys: oldKeys.size,
+      newKeys: newKeys.size,
+      oldValueBytes: sum(oldKeys),
+      newValueBytes: sum(newKeys),
+      ...emptyChangeTotals(),
+    };
+    const record = (key: string, oldBytes: number | undefined, newBytes: number | undefined) => {
+      if (oldBytes === newBytes) return;
+      const deltaBytes = (newBytes ?? 0) - (oldBytes ?? 0);
+      const change: KeyChange = {
+        table,
+        key,
+        change: oldBytes === undefined ? 'added' : newBytes === undefined ? 'removed' : deltaBytes > 0 ? 'grown' : 'shrunk',
+        oldBytes: oldBytes ?? 0,
+        newBytes: newBytes ?? 0,
+        deltaBytes,
+      };
+      addChange(totals, change);
+      CATEGORIES.forEach((c, i) => {
+        if (c.table === table && categoryRes[i].test(key)) addChange(categories[i], change);
+      });
+      const pattern = getKeyFamilyPatterns(key, depth).pop() ?? key;
+      let family = families.get(`${table}\n${pattern}`);
+      if (!family) {
+        family = { table, pattern, ...emptyChangeTotals() };
+        families.set(`${table}\n${pattern}`, family);
+      }
+      addChange(family, change);
+      changes.push(change);
+    };
+    for (const [key, oldBytes] of oldKeys) record(key, oldBytes, newKeys.get(key));
+    for (const [key, newBytes] of newKeys) if (!oldKeys.has(key)) record(key, undefined, newBytes);
+    tables.push(totals);
+  }
+
+  const byDelta = (a: { deltaBytes: number }, b: { deltaBytes: number }) => Math.abs(b.deltaBytes) - Math.abs(a.deltaBytes);
+  return {
+    oldPath,
+    newPath,
+    oldSizeBytes: getDbFileSizes(oldPath).totalBytes,
+    newSizeBytes: getDbFileSizes(newPath).totalBytes,
+    depth,
+    tables,
+    categories,
+    families: [...families.values()].sort(byDelta),
+    topChanges: changes.sort(byDelta).slice(0, topN),
+  };
+}
+
+/**
+ * The file a --diff argument names: an existing path (the live state.vscdb, a copy or a .bak snapshot), a backup ID from
+ * --list-backups, or "global" for the live global DB. Null if it matches none of these.
+ */
+function resolveDiffSource(installation: Installation | null, source: string): string | null {
+  if (existsSync(source) && statSync(source).isFile()) return resolve(source);
+  if (source === 'global') return getGlobalStatePath(installation);
+  const backup = getAllStateVscdbPaths(installation)
+    .flatMap(({ path: filePath }) => listBackups(filePath))
+    .find((b) => b.id === source);
+  return backup?.path ?? null;
+}
+
+function formatMbDelta(bytes: number): string {
+  if (bytes === 0) return '0.00';
+  const mb = bytes / (1024 * 1024);
+  return `${mb >= 0 ? '+' : ''}${mb.toFixed(2)}`;
+}
+
+/** Print what changed between two snapshots of a state.vscdb (see collectDiff). Read-only. */
+function diffReport(oldPath: string, newPath: string, depth: number, topN = 30): void {
+  const diff = collectDiff(oldPath, newPath, depth, topN);
+  const toMb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(2);
+  console.log('\n=== state.vscdb diff ===\n');
+  console.log(`Old: ${oldPath}`);
+  console.log(`New: ${newPath}`);
+  console.log(`File size: ${toMb(diff.oldSizeBytes)} MB -> ${toMb(diff.newSizeBytes)} MB (${formatMbDelta(diff.newSizeBytes - diff.oldSizeBytes)} MB)`);
+
+  const row = (label: string, width: number, t: ChangeTotals) =>
+    `${label.padEnd(width)} ${t.added.toLocaleString().padStart(8)} ${formatMbDelta(t.addedBytes).padStart(10)} ` +
+    `${t.removed.toLocaleString().padStart(8)} ${formatMbDelta(-t.removedBytes).padStart(10)} ` +
+    `${t.grown.toLocaleString().padStart(8)} ${formatMbDelta(t.grownBytes).padStart(10)} ` +
+    `${t.shrunk.toLocaleString().padStart(8)} ${formatMbDelta(-t.shrunkBytes).padStart(10)} ${formatMbDelta(t.deltaBytes).padStart(10)}`;
+  const header = (label: string, width: number) => {
+    console.log(
+      `${label.padEnd(width)} ${'Added'.padStart(8)} ${'MB'.padStart(10)} ${'Removed'.padStart(8)} ${'MB'.padStart(10)} ` +
+      `${'Grown'.padStart(8)} ${'MB'.padStart(10)} ${'Shrunk'.padStart(8)} ${'MB'.padStart(10)} ${'Net MB'.padStart(10)}`
+    );
+    console.log(`${'-'.repeat(width)} ${`${'-'.repeat(8)} ${'-'.repeat(10)} `.repeat(4)}${'-'.repeat(10)}`);
+  };
+
+  console.log('\nBy table:\n');
+  header('Table', 34);
+  for (const t of diff.tables) console.log(row(t.table, 34, t));
+  for (const t of diff.tables) {
+    console.log(
+      `  ${t.table}: ${t.oldKeys.toLocaleString()} -> ${t.newKeys.toLocaleString()} keys, ` +
+      `${toMb(t.oldValueBytes)} -> ${toMb(t.newValueBytes)} MB of values`
+    );
+  }
+
+  console.log('\nBy category:\n');
+  header('Category', 34);
+  for (const c of diff.categories) console.log(row(`${c.pattern} (${c.table})`, 34, c));
+
+  console.log(`\nBy key family (depth ${depth}, largest net change first):\n`);
+  header('Family (LIKE pattern)', 34);
+  for (const f of diff.families.slice(0, topN)) {
+    const label = `${formatPattern(f.pattern)} (${f.table === 'ItemTable' ? 'Item' : 'KV'})`;
+    console.log(row(label.length > 34 ? label.slice(0, 31) + '...' : label, 34, f));
+  }
+  if (diff.families.length > topN) console.log(`... ${(diff.families.length - topN).toLocaleString()} more families`);
+  if (diff.families.length === 0) console.log('(no changes)');
+
+  console.log(`\nLargest changes (top ${diff.topChanges.length}):\n`);
+  console.log(`${'Change'.padEnd(8)} ${'Table'.padEnd(12)} ${'Key'.padEnd(60)} ${'Old MB'.padStart(9)} ${'New MB'.padStart(9)} ${'Delta MB'.padStart(9)}`);
+  console.log(`${'-'.repeat(8)} ${'-'.repeat(12)} ${'-'.repeat(60)} ${'-'.repeat(9)} ${'-'.repeat(9)} ${'-'.repeat(9)}`);
+  for (const c of diff.topChanges) {
+    const key = c.key.length > 60 ? c.key.slice(0, 57) + '...' : c.key;
+    console.log(
+      `${c.change.padEnd(8)} ${c.table.padEnd(12)} ${key.padEnd(60)} ${toMb(c.oldBytes).padStart(9)} ${toMb(c.newBytes).padStart(9)} ${formatMbDelta(c.deltaBytes).padStart(9)}`
+    );
+  }
+  console.log('\nAny family or key can be previewed for deletion with: --table <Table> --delete-keys "<pattern>" --dry-run');
+}
+
+/** --target-size deletes from these categories first (cheapest to lose first) unless --priority says otherwise. */
+const DEFAULT_TARGET_PRIORITY = ['agentKv:blob:%', 'checkpointId:%', 'bubbleId:%'];
+
+interface TargetSizeStep {
+  pattern: string;
+  table: TableName;
+  /** Rows in the category before and how many of them (oldest first) are removed. */
+  count: number;
+  bytes: number;
+  removedRows: KeyRow[];
+  removedBytes: number;
+}
+
+/** The plan of a --target-size run and, unless dryRun or it does not fit, what was removed. File sizes include -wal/-journal. */
+interface TargetSizeResult {
+  path: string;
+  targetMb: number;
+  /** One step per priority category; empty when the file was already within the target. */
+  steps: TargetSizeStep[];
+  /** Estimated size after removing every step's rows and VACUUM. */
+  projectedBytes: number;
+  /** False when even all listed categories cannot reach the target; nothing was changed then. */
+  fits: boolean;
+  beforeBytes: number;
+  /** File size after VACUUM; with dryRun (or when it does not fit), the estimate. */
+  afterBytes: number;
+  dryRun: boolean;
+  /** Snapshot taken before the delete; null if nothing was deleted. */
+  backupId: string | null;
+}
+
+/**
+ * Shrink filePath to targetMb with the least damage: walk the categories in priority order, removing each one's oldest
+ * rows (by rowid) until the projected size after VACUUM fits. Later categories are only touched if the earlier ones
+ * are not enough. Changes nothing (fits is false) if even all listed categories cannot reach the target.
+ */
+function shrinkToTargetSize(
+  filePath: string,
+  targetMb: number,
+  priority: string[],
+  keepBackups: number,
+  dryRun: boolean,
+  archiveDir: string | null,
+  onProgress: ProgressCallback = logProgress
+): TargetSizeResult {
+  const categories = priority.map((pattern) => {
+    const category = CATEGORIES.find((c) => c.pattern === pattern);
+    if (!category) throw new Error(`Unknown --priority category "${pattern}". Use: ${CATEGORIES.map((c) => c.pattern).join(', ')}`);
+    return category;
+  });
+  const beforeBytes = getDbFileSizes(filePath).totalBytes;
+  const result: TargetSizeResult = {
+    path: filePath,
+    targetMb,
+    steps: [],
+    projectedBytes: beforeBytes,
+    fits: true,
+    beforeBytes,
+    afterBytes: beforeBytes,
+    dryRun,
+    backupId: null,
+  };
+  if (beforeBytes / (1024 * 1024) <= targetMb) {
+    onProgress('Already within the target size. Nothing to do.');
+    return result;
+  }
+
+  const plan = withDatabase(filePath, (db) => {
+    const counts = collectCategoryCounts(db);
+    let projectedMb = estimateSizeAfterVacuumMb(db, 0);
+    const steps: TargetSizeStep[] = [];
+    for (const { table, pattern } of categories) {
+      const { count, bytes } = counts.find((c) => c.pattern === pattern) ?? { count: 0, bytes: 0 };
+      const step: TargetSizeStep = { pattern, table, count, bytes, removedRows: [], removedBytes: 0 };
+      steps.push(step);
+      if (projectedMb <= targetMb) continue;
+      const rows = db.all<KeyRow>(
+        `SELECT rowid, key, COALESCE(LENGTH(value), 0) AS bytes FROM ${table} WHERE key LIKE ? ESCAPE '\\' ORDER BY rowid ASC;`,
+        [pattern]
+      );
+      for (const row of rows) {
+        if (projectedMb <= targetMb) break;
+        step.removedRows.push(row);
+        step.removedBytes += row.bytes;
+        projectedMb -= row.bytes / (1024 * 1024);
+      }
+    }
+    return { steps, projectedMb: Math.max(projectedMb, 0) };
+  }, true);
+  result.steps = plan.steps;
+  result.projectedBytes = Math.round(plan.projectedMb * 1024 * 1024);
+  result.afterBytes = result.projectedBytes;
+  result.fits = plan.projectedMb <= targetMb;
+  if (!result.fits || dryRun) return result;
+
+  assertSafeToWrite(filePath, onProgress);
+  const rows = plan.steps.flatMap((s) => s.removedRows.map((r) => ({ ...r, table: s.table })));
+  result.backupId = deleteRowsAndVacuum(filePath, rows, keepBackups, archiveDir, onProgress);
+  result.afterBytes = getDbFileSizes(filePath).totalBytes;
+  return result;
+}
+
+/** --target-size: print the plan table, then the space freed; throws if the target cannot be reached. */
+function printShrinkToTargetSize(
+  filePath: string,
+  targetMb: number,
+  priority: string[],
+  keepBackups: number,
+  dryRun: boolean,
+  archiveDir: string | null
+): void {
+  console.log(`\n=== ${dryRun ? 'Dry run: shrink' : 'Shrink'} global state.vscdb to ${targetMb} MB ===\n`);
+  console.log(`Path: ${filePath}`);
+  console.log(`File size: ${formatDbSize(filePath)}`);
+  console.log(`Priority: ${priority.join(' > ')}`);
+  // Plan first (read-only) so the table is on screen before the backup and delete start.
+  const plan = shrinkToTargetSize(filePath, targetMb, priority, keepBackups, true, archiveDir, () => {});
+  if (plan.steps.length === 0) {
+    console.log('\nAlready within the target size. Nothing to do.');
+    return;
+  }
+  console.log('\nCategory            | Rows       | Size (MB)  | Remove rows | Remove (MB) | Left rows');
+  console.log('--------------------|------------|------------|-------------|-------------|-----------');
+  for (const s of plan.steps) {
+    console.log(
+      `${s.pattern.padEnd(20)}| ${s.count.toLocaleString().padStart(10)} | ${(s.bytes / (1024 * 1024)).toFixed(2).padStart(10)} | ` +
+      `${s.removedRows.length.toLocaleString().padStart(11)} | ${(s.removedBytes / (1024 * 1024)).toFixed(2).padStart(11)} | ` +
+      `${(s.count - s.removedRows.length).toLocaleString().padStart(9)}`
+    );
+  }
+  console.log(`\nEst. after VACUUM: ${(plan.projectedBytes / (1024 * 1024)).toFixed(2)} MB (target ${targetMb} MB)`);
+  if (!plan.fits) {
+    throw new Error(
+      `Cannot reach ${targetMb} MB even by removing every row in ${priority.join(', ')}. ` +
+      'Add categories with --priority or use a larger --target-size. Nothing was changed.'
+    );
+  }
+  if (dryRun) {
+    console.log('\nDry run: no changes were made.');
+    return;
+  }
+  console.log('');
+  const result = shrinkToTargetSize(filePath, targetMb, priority, keepBackups, false, archiveDir);
+  const afterMb = result.afterBytes / (1024 * 1024);
+  console.log(`\nFreed: ${((result.beforeBytes - result.afterBytes) / (1024 * 1024)).toFixed(2)} MB. Now ${afterMb.toFixed(2)} MB (target ${targetMb} MB).`);
+}
+
+/**
+ * Archive the conversations the rows belong to, back up filePath, delete the rows (from either table) and VACUUM.
+ * The caller has already checked assertSafeToWrite. Returns the backup's ID.
+ */
+function deleteRowsAndVacuum(
+  filePath: string,
+  rows: (KeyRow & { table: TableName })[],
+  keepBackups: number,
+  archiveDir: string | null,
+  onProgress: ProgressCallback = logProgress
+): string {
+  return withDatabase(filePath, (db) => {
+    archiveConversations(db, rows.filter((r) => r.table === 'cursorDiskKV').map((r) => r.key), archiveDir, onProgress);
+    onProgress('Backing up before delete...');
+    const backup = createBackup(filePath, keepBackups, db, onProgress);
+    for (const table of ALLOWED_TABLES) {
+      const rowids = rows.filter((r) => r.table === table).map((r) => r.rowid);
+      if (rowids.length === 0) continue;
+      onProgress(`Deleting ${rowids.length.toLocaleString()} row(s) from ${table}...`);
+      deleteRowids(db, table, rowids);
+    }
+    onProgress('Running VACUUM to reclaim space...');
+    vacuumDatabase(filePath, db, onProgress);
+    return backup.id;
+  });
+}
+
+/** Top-level fields --slim never shortens, however large: the message text itself. */
+const SLIM_KEEP_FIELDS = ['text', 'richText'];
+
+/**
+ * Fields --slim empties by default (to "", [] or {}): payloads embedded in chat bubbles (images, attached file contents,
+ * context chunks, tool and terminal output) rather than the conversation. Override with --slim-fields; see --field-sizes.
+ */
+const DEFAULT_SLIM_FIELDS = [
+  'images',
+  'attachedCodeChunks',
+  'codebaseContextChunks',
+  'relevantFiles',
+  'recentlyViewedFiles',
+  'fileDiffTrajectories',
+  'diffsSinceLastApply',
+  'interpreterResults',
+  'consoleLogs',
+];
+
+/** Rows read per query while scanning a category, so a large category is never held in memory at once. */
+const SLIM_BATCH_ROWS = 200;
+
+interface FieldSize {
+  /** Field path inside the JSON value: dot-separated keys, [] for array elements (e.g. codeBlocks[].content). */
+  path: string;
+  rows: number;
+  bytes: number;
+}
+
+interface SlimStats {
+  scannedRows: number;
+  changedRows: number;
+  bytesBefore: number;
+  bytesAfter: number;
+  /** Bytes removed per field path (stripped or truncated). */
+  removedByField: Map<string, number>;
+}
+
+function childPath(path: string, key: string | null): string {
+  if (key == null) return `${path}[]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Add the serialized size of every node of value to sizes under its field path (parents include their children), counting
+ * each path once per row. Returns the serialized size of value.
+ */
+function measureFields(value: unknown, path: string, sizes: Map<string, FieldSize>, seen: Set<string>): number {
+  let bytes: number;
+  if (Array.isArray(value)) {
+    bytes = 2 + Math.max(0, value.length - 1);
+    for (const item of value) bytes += measureFields(item, childPath(path, null), sizes, seen);
+  } else if (value && typeof value === 'object') {
+    const entries = Object.entries(value);
+    bytes = 2 + Math.max(0, entries.length - 1);
+    for (const [key, item] of entries) bytes += Buffer.byteLength(JSON.stringify(key)) + 1 + measureFields(item, childPath(path, key), sizes, seen);
+  } else {
+    bytes = Buffer.byteLength(JSON.stringify(value) ?? 'null');
+  }
+  if (path) {
+    const entry = sizes.get(path) ?? { path, rows: 0, bytes: 0 };
+    entry.bytes += bytes;
+    if (!seen.has(path)) {
+      seen.add(path);
+      entry.rows++;
+    }
+    sizes.set(path, entry);
+  }
+  return bytes;
+}
+
+/** Call fn with each batch of rows whose key matches pattern, in rowid order, with their value as text and its storage type. */
+function forEachValueBatch(
+  db: SqliteDb,
+  table: TableName,
+  pattern: string,
+  fn: (rows: { rowid: number; key: string; type: string; value: string | null }[]) => void
+): void {
+  let lastRowid = -1;
+  for (;;) {
+    const rows = db.all<{ rowid: number; key: string; type: string; value: string | null }>(
+      `SELECT rowid, key, typeof(value) AS type, CAST(value AS TEXT) AS value FROM ${table}
+       WHERE key LIKE ? ESCAPE '\\' AND rowid > ? ORDER BY rowid LIMIT ${SLIM_BATCH_ROWS};`,
+      [pattern, lastRowid]
+    );
+    if (rows.length === 0) return;
+    fn(rows);
+    lastRowid = rows[rows.length - 1].rowid;
+  }
+}
+
+/** Which fields account for the bytes of the JSON values of keys matching pattern. Read-only. */
+function collectFieldSizes(db: SqliteDb, table: TableName, pattern: string): { rows: number; jsonRows: number; bytes: number; fields: FieldSize[] } {
+  const sizes = new Map<string, FieldSize>();
+  let rows = 0;
+  let jsonRows = 0;
+  let bytes = 0;
+  forEachValueBatch(db, table, pattern, (batch) => {
+    for (const row of batch) {
+      rows++;
+      bytes += Buffer.byteLength(row.value ?? '');
+      const value = parseStoredValue(row.value);
+      if (!value || typeof value !== 'object') continue;
+      jsonRows++;
+      measureFields(value, '', sizes, new Set());
+    }
+  });
+  return { rows, jsonRows, bytes, fields: [...sizes.values()].sort((a, b) => b.bytes - a.bytes) };
+}
+
+/** Print the fields that make up the values of keys matching pattern, largest first, marking what --slim would do with each. */
+function printFieldSizes(filePath: string, table: TableName, pattern: string, fields: string[], maxFieldKb: number | null, topN = 40): void {
+  const report = withDatabase(filePath, (db) => collectFieldSizes(db, table, pattern), true);
+  const toMb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(2);
+  console.log(`\n=== Field sizes of "${pattern}" (${table}) ===\n`);
+  console.log(`Rows: ${report.rows} (${report.jsonRows} JSON), total value size: ${toMb(report.bytes)} MB\n`);
+  if (report.fields.length === 0) {
+    console.log('No JSON values to break down.');
+    return;
+  }
+  console.log(`${'MB'.padStart(9)} ${'%'.padStart(6)} ${'rows'.padStart(7)}  field`);
+  for (const field of report.fields.slice(0, topN)) {
+    const share = report.bytes > 0 ? ((field.bytes / report.bytes) * 100).toFixed(1) : '0.0';
+    const mark = fields.includes(field.path) ? '  [--slim: emptied]' : SLIM_KEEP_FIELDS.includes(field.path) ? '  [--slim: kept]' : '';
+    console.log(`${toMb(field.bytes).padStart(9)} ${share.padStart(6)} ${String(field.rows).padStart(7)}  ${field.path}${mark}`);
+  }
+  if (report.fields.length > topN) console.log(`... and ${report.fields.length - topN} more field(s)`);
+  console.log(
+    '\nParents include their children. ' +
+    (maxFieldKb != null ? `Other strings over ${maxFieldKb} KB are truncated by --slim.` : 'Add --max-field-kb N to --slim to also truncate other long strings.')
+  );
+  console.log(`Slim: npx tsx scripts/prune-state-vscdb.ts --slim "${pattern}" --table ${table} [--slim-fields "a,b[].c"] [--max-field-kb N] --dry-run`);
+}
+
+/** Empty a value to "", [] or {} (other types are left alone). */
+function emptyLike(value: unknown): unknown {
+  if (typeof value === 'string') return '';
+  if (Array.isArray(value)) return [];
+  if (value && typeof value === 'object') return {};
+  return value;
+}
+
+/** The longest start of value that fits in maxBytes of UTF-8, cut between characters (never inside a code point). */
+function truncateUtf8(value: string, maxBytes: number): string {
+  const bytes = Buffer.from(value, 'utf-8');
+  if (bytes.length <= maxBytes) return value;
+  let end = maxBytes;
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+  return bytes.subarray(0, end).toString('utf-8');
+}
+
+/**
+ * The slimmed copy of value: fields emptied and, if maxBytes is set, other long strings (not SLIM_KEEP_FIELDS) cut to
+ * maxBytes. Records what was removed.
+ */
+function slimNode(value: unknown, path: string, fields: string[], maxBytes: number | null, removed: Map<string, number>): unknown {
+  const note = (after: unknown) => {
+    const saved = Buffer.byteLength(JSON.stringify(value)) - Buffer.byteLength(JSON.stringify(after));
+    if (saved > 0) removed.set(path, (removed.get(path) ?? 0) + saved);
+    return after;
+  };
+  if (path && fields.includes(path)) return note(emptyLike(value));
+  if (typeof value === 'string') {
+    if (maxBytes == null || SLIM_KEEP_FIELDS.includes(path) || Buffer.byteLength(value) <= maxBytes) return value;
+    const kept = truncateUtf8(value, maxBytes);
+    return note(`${kept}… [${Math.round((Buffer.byteLength(value) - Buffer.byteLength(kept)) / 1024)} KB removed by --slim]`);
+  }
+  if (Array.isArray(value)) return value.map((item) => slimNode(item, childPath(path, null), fields, maxBytes, removed));
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) out[key] = slimNode(item, childPath(path, key), fields, maxBytes, removed);
+    return out;
+  }
+  return value;
+}
+
+/** The slimmed text of a stored value, or null if it is not JSON or nothing in it is shortened. */
+function slimStoredValue(text: string | null, fields: string[], maxBytes: number | null, removed: Map<string, number>): string | null {
+  const value = parseStoredValue(text);
+  if (!value || typeof value !== 'object') return null;
+  const rowRemoved = new Map<string, number>();
+  const slimmed = slimNode(value, '', fields, maxBytes, rowRemoved);
+  if (rowRemoved.size === 0) return null;
+  const out = JSON.stringify(slimmed);
+  if (Buffer.byteLength(out) >= Buffer.byteLength(text ?? '')) return null;
+  for (const [path, bytes] of rowRemoved) removed.set(path, (removed.get(path) ?? 0) + bytes);
+  return out;
+}
+
+/** Write [value, rowid] pairs in one transaction, binding each value as a parameter. */
+function updateValues(db: SqliteDb, table: TableName, updates: [SqlValue, number][]): void {
+  const sql = `UPDATE ${table} SET value = ? WHERE rowid = ?;`;
+  runInTransaction(db, updates.map((params): SqlStatement => [sql, params]));
+}
+
+/** Slim every matching row in place (batch by batch, each in its own transaction), keeping each value's storage type. */
+function slimRows(db: SqliteDb, table: TableName, pattern: string, fields: string[], maxBytes: number | null, write: boolean): SlimStats {
+  const stats: SlimStats = { scannedRows: 0, changedRows: 0, bytesBefore: 0, bytesAfter: 0, removedByField: new Map() };
+  forEachValueBatch(db, table, pattern, (rows) => {
+    const updates: [SqlValue, number][] = [];
+    for (const row of rows) {
+      stats.scannedRows++;
+      const slimmed = slimStoredValue(row.value, fields, maxBytes, stats.removedByField);
+      if (slimmed == null) continue;
+      stats.changedRows++;
+      stats.bytesBefore += Buffer.byteLength(row.value ?? '');
+      stats.bytesAfter += Buffer.byteLength(slimmed);
+      updates.push([row.type === 'blob' ? Buffer.from(slimmed, 'utf-8') : slimmed, row.rowid]);
+    }
+    if (write && updates.length > 0) updateValues(db, table, updates);
+  });
+  return stats;
+}
+
+/** What a --slim run changed (or, with dryRun, would change). File sizes include -wal/-journal. */
+interface SlimResult {
+  path: string;
+  table: TableName;
+  pattern: string;
+  /** Rows scanned and slimmed, and the value bytes of the slimmed rows before and after. */
+  stats: SlimStats;
+  beforeBytes: number;
+  /** File size after VACUUM; with dryRun, the estimate. */
+  afterBytes: number;
+  dryRun: boolean;
+  /** Snapshot taken before slimming; null if nothing was changed. */
+  backupId: string | null;
+}
+
+/**
+ * Shrink the JSON values of keys matching pattern instead of deleting them: empty the given fields and, if maxFieldKb is
+ * set, truncate every other string over it (the message text is kept whole), then VACUUM. Keys, message text and the JSON
+ * structure stay, so conversations remain readable. A backup is taken first. With dryRun nothing is changed and
+ * afterBytes is the projected size.
+ */
+function slimKeys(
+  filePath: string,
+  pattern: string,
+  table: TableName,
+  fields: string[],
+  maxFieldKb: number | null,
+  keepBackups: number,
+  dryRun: boolean,
+  archiveDir: string | null,
+  onProgress: ProgressCallback = logProgress
+): SlimResult {
+  if (!dryRun) assertSafeToWrite(filePath, onProgress);
+  const beforeBytes = getDbFileSizes(filePath).totalBytes;
+  const toMb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(2);
+  const maxBytes = maxFieldKb != null ? maxFieldKb * 1024 : null;
+
+  const result = withDatabase(filePath, (db): SlimResult => {
+    const plan = slimRows(db, table, pattern, fields, maxBytes, false);
+    const out: SlimResult = { path: filePath, table, pattern, stats: plan, beforeBytes, afterBytes: beforeBytes, dryRun, backupId: null };
+    onProgress(`Rows matching: ${plan.scannedRows}, to slim: ${plan.changedRows}`);
+    if (plan.changedRows === 0) {
+      onProgress('Nothing to slim.');
+      return out;
+    }
+    onProgress(`Value size of those rows: ${toMb(plan.bytesBefore)} MB -> ${toMb(plan.bytesAfter)} MB\n`);
+    onProgress(`${'MB removed'.padStart(10)}  field`);
+    for (const [path, bytes] of [...plan.removedByField].sort((a, b) => b[1] - a[1]).slice(0, 20)) {
+      onProgress(`${toMb(bytes).padStart(10)}  ${path}`);
+    }
+    if (dryRun) {
+      out.afterBytes = Math.round(estimateSizeAfterVacuumMb(db, plan.bytesBefore - plan.bytesAfter) * 1024 * 1024);
+      return out;
+    }
+    if (table === 'cursorDiskKV' && archiveDir) {
+      const keys: string[] = [];
+      forEachValueBatch(db, table, pattern, (rows) => {
+        for (const row of rows) if (slimStoredValue(row.value, fields, maxBytes, new Map()) != null) keys.push(row.key);
+      });
+      archiveConversations(db, keys, archiveDir, onProgress);
+    }
+    onProgress('\nBacking up before slimming...');
+    out.backupId = createBackup(filePath, keepBackups, db, onProgress).id;
+    onProgress(`Slimming ${plan.changedRows} row(s)...`);
+    out.stats = slimRows(db, table, pattern, fields, maxBytes, true);
+    onProgress(`Slimmed ${out.stats.changedRows} row(s): ${toMb(out.stats.bytesBefore)} MB -> ${toMb(out.stats.bytesAfter)} MB of values.`);
+    onProgress('Running VACUUM to reclaim space...');
+    vacuumDatabase(filePath, db, onProgress);
+    return out;
+  }, dryRun);
+  if (result.backupId) result.afterBytes = getDbFileSizes(filePath).totalBytes;
+  return result;
+}
+
+/** --slim: print which fields are emptied, slim with progress on the console, then the estimate (dry run) or space freed. */
+function printSlimKeys(
+  filePath: string,
+  pattern: string,
+  table: TableName,
+  fields: string[],
+  maxFieldKb: number | null,
+  keepBackups: number,
+  dryRun: boolean,
+  archiveDir: string | null
+): void {
+  const toMb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(2);
+  console.log(`\n=== ${dryRun ? 'Dry run: ' : ''}Slim "${pattern}" (${table}) ===\n`);
+  console.log(`Emptied fields: ${fields.length > 0 ? fields.join(', ') : '(none)'}`);
+  console.log(
+    maxFieldKb != null
+      ? `Other strings over ${maxFieldKb} KB are truncated; ${SLIM_KEEP_FIELDS.join(', ')} are kept whole.\n`
+      : 'Other fields are left as they are (use --max-field-kb N to truncate long strings).\n'
+  );
+  const result = slimKeys(filePath, pattern, table, fields, maxFieldKb, keepBackups, dryRun, archiveDir);
+  if (result.stats.changedRows === 0) return;
+  if (dryRun) {
+    const removedBytes = result.stats.bytesBefore - result.stats.bytesAfter;
+    console.log(`\nEst. after VACUUM: ${toMb(result.afterBytes)} MB (saves ~${toMb(removedBytes)} MB)`);
+    console.log('\nDry run: no changes were made.');
+    return;
+  }
+  console.log(`\nFreed: ${toMb(result.beforeBytes - result.afterBytes)} MB`);
+}
+
+/** Blocks the prompt for a few ms between reads of a non-blocking stdin (Atomics.wait is a synchronous sleep). */
+const PROMPT_WAIT = new Int32Array(new SharedArrayBuffer(4));
+
+/**
+ * Ask a question on the terminal and return the answer line (synchronously, so it works inside the plain main flow).
+ * Reads one byte at a time so that piped input with several lines is not swallowed by the first prompt. '' at end of input.
+ */
+function promptLine(question: string): string {
+  process.stdout.write(`${question} `);
+  const byte = Buffer.alloc(1);
+  const bytes: number[] = [];
+  for (;;) {
+    let n: number;
+    try {
+      n = readSync(0, byte, 0, 1, null);
+    } catch (error) {
+      // stdin in non-blocking mode has no input yet: wait a little instead of spinning.
+      if ((error as NodeJS.ErrnoException).code === 'EAGAIN') {
+        Atomics.wait(PROMPT_WAIT, 0, 0, 50);
+        continue;
+      }
+      throw error;
+    }
+    if (n === 0 || byte[0] === 0x0a) break;
+    bytes.push(byte[0]);
+  }
+  return Buffer.from(bytes).toString('utf-8').trim();
+}
+
+/** Ask a yes/no question on the terminal; anything but y/yes is no. */
+function promptYesNo(question: string): boolean {
+  return /^y(es)?$/i.test(promptLine(`${question} [y/N]`));
+}
+
+/** One category (or other key family) picked in --interactive, with what to keep. */
+interface InteractiveChoice {
+  table: TableName;
+  pattern: string;
+  keepLast: number | null;
+}
+
+/** The rows one choice would delete; rows an earlier choice already covers are left out. */
+interface InteractiveStep extends InteractiveChoice {
+  count: number;
+  bytes: number;
+  toDelete: KeyRow[];
+  deleteBytes: number;
+}
+
+/** Ask which categories to prune and, for each, whether to delete all matching rows or keep the last N. Null = exit. */
+function promptChoices(): InteractiveChoice[] | null {
+  const other = CATEGORIES.length + 1;
+  const answer = promptLine(`\nChoose categories 1-${other} (e.g. 1 or 1,3), or Enter to exit:`);
+  if (answer === '' || /^(q|quit|exit)$/i.test(answer)) return null;
+  const numbers = answer.split(/[\s,]+/).filter(Boolean).map(Number);
+  if (numbers.some((n) => !Number.isInteger(n) || n < 1 || n > other)) {
+    console.log(`Invalid choice "${answer}". Enter numbers from 1 to ${other}.`);
+    return [];
+  }
+  const choices: InteractiveChoice[] = [];
+  for (const n of new Set(numbers)) {
+    let table: TableName = 'cursorDiskKV';
+    let pattern: string;
+    if (n === other) {
+      pattern = promptLine('LIKE pattern (e.g. codeBlockDiff:% from --discover-keys):');
+      if (!pattern) continue;
+      if (/^i/i.test(promptLine('Table: (C)ursorDiskKV or (I)temTable? [C/I]'))) table = 'ItemTable';
+    } else {
+      ({ table, pattern } = CATEGORIES[n - 1]);
+    }
+    const mode = promptLine(`${pattern} (${table}): delete (A)ll matching items, or (K)eep last N items? [A/K]`);
+    let keepLast: number | null = null;
+    if (/^k/i.test(mode)) {
+      const raw = promptLine('Keep how many items? (e.g. 100)');
+      keepLast = Number(raw);
+      if (!Number.isInteger(keepLast) || keepLast <= 0) {
+        console.log(`Invalid number "${raw}". Skipping ${pattern}.`);
+        continue;
+      }
+    } else if (!/^a/i.test(mode)) {
+      console.log(`Skipping ${pattern}.`);
+      continue;
+    }
+    choices.push({ table, pattern, keepLast });
+  }
+  return choices;
+}
+
+/**
+ * Guided pruning of the global state.vscdb, the same flow as option 5 of clear-cursor-cache.ps1 on any OS: show the
+ * category counts, let the user pick categories and keep-all / keep-last-N, show the rows and MB each would free and the
+ * projected size after VACUUM, confirm, delete (one backup, one VACUUM), and loop until the user exits.
+ */
+function runInteractive(filePath: string, keepBackups: number, dryRun: boolean, archiveDir: string | null): void {
+  console.log(`\n=== Interactive pruning${dryRun ? ' (dry run)' : ''} ===`);
+  console.log('Close Cursor before deleting. Press Enter at the category prompt to exit.');
+  for (;;) {
+    const counts = countCategories(filePath);
+    console.log(`\nPath: ${filePath}`);
+    console.log(`File size: ${formatDbSize(filePath)}\n`);
+    console.log('    Category                                           | Count      | Size (MB)');
+    console.log('    ---------------------------------------------------|------------|----------');
+    counts.forEach(({ label, count, bytes, error }, i) => {
+      const detail = error ? `Error: ${error}` : `${count.toLocaleString().padStart(10)} | ${(bytes / (1024 * 1024)).toFixed(2).padStart(9)}`;
+      console.log(`${String(i + 1).padStart(2)}) ${label.slice(0, 50).padEnd(50)} | ${detail}`);
+    });
+    console.log(`${String(CATEGORIES.length + 1).padStart(2)}) Other key family (any LIKE pattern, e.g. from --discover-keys)`);
+
+    const choices = promptChoices();
+    if (!choices) break;
+    if (choices.length === 0) continue;
+
+    try {
+      const seen = new Set<string>();
+      const plan = withDatabase(filePath, (db) => {
+        const steps: InteractiveStep[] = choices.map((choice) => {
+          const { toDelete, toKeep } = selectKeysForDeletion(db, choice.pattern, choice.table, choice.keepLast, null);
+          const rows = toDelete.filter((r) => !seen.has(`${choice.table}:${r.rowid}`));
+          for (const r of rows) seen.add(`${choice.table}:${r.rowid}`);
+          return {
+            ...choice,
+            count: toDelete.length + toKeep.length,
+            bytes: [...toDelete, ...toKeep].reduce((sum, r) => sum + r.bytes, 0),
+            toDelete: rows,
+            deleteBytes: rows.reduce((sum, r) => sum + r.bytes, 0),
+          };
+        });
+        const projectedMb = estimateSizeAfterVacuumMb(db, steps.reduce((sum, s) => sum + s.deleteBytes, 0));
+        return { steps, projectedMb };
+      }, true);
+
+      console.log('\nPattern (table)                          | Keep   | Rows       | Size (MB)  | Delete rows | Delete (MB)');
+      console.log('-----------------------------------------|--------|------------|------------|-------------|------------');
+      for (const s of plan.steps) {
+        const label = `${s.pattern} (${s.table})`;
+        console.log(
+          `${(label.length > 40 ? label.slice(0, 37) + '...' : label).padEnd(40)} | ${(s.keepLast == null ? 'none' : String(s.keepLast)).padStart(6)} | ` +
+          `${s.count.toLocaleString().padStart(10)} | ${(s.bytes / (1024 * 1024)).toFixed(2).padStart(10)} | ` +
+          `${s.toDelete.length.toLocaleString().padStart(11)} | ${(s.deleteBytes / (1024 * 1024)).toFixed(2).padStart(11)}`
+        );
+      }
+      const rows = plan.steps.flatMap((s) => s.toDelete.map((r) => ({ ...r, table: s.table })));
+      const nowMb = getDbSizeMb(filePath);
+      console.log(`\nSize now: ${nowMb.toFixed(2)} MB. Est. after VACUUM: ${plan.projectedMb.toFixed(2)} MB (saves ~${Math.max(0, nowMb - plan.projectedMb).toFixed(2)} MB).`);
+      if (rows.length === 0) {
+        console.log('Nothing to delete.');
+        continue;
+      }
+      if (dryRun) {
+        console.log('Dry run: no changes were made.');
+        continue;
+      }
+      if (!promptYesNo(`Delete ${rows.length.toLocaleString()} item(s) and VACUUM?`)) {
+        console.log('Pruning cancelled.');
+        continue;
+      }
+
+      assertSafeToWrite(filePath);
+      console.log('');
+      deleteRowsAndVacuum(filePath, rows, keepBackups, archiveDir);
+      const afterMb = getDbSizeMb(filePath);
+      console.log(`\nFreed: ${(nowMb - afterMb).toFixed(2)} MB. Now ${afterMb.toFixed(2)} MB.`);
+      const fullyPruned = plan.steps.some((s) => s.keepLast == null && s.table === 'cursorDiskKV' && CATEGORIES.some((c) => c.pattern === s.pattern));
+      if (fullyPruned) {
+        console.log('\nNote: after fully pruning a chat category, Cursor may show a run-time error when connecting to the server.');
+        console.log('Create a "New Agent" to continue with your conversations.');
+      }
+    } catch (e) {
+      console.error('Pruning failed:', e instanceof Error ? e.message : String(e));
+      process.exitCode = EXIT_ERROR;
+    }
+  }
+}
+
+function main() {
+  const options = parseArgs();
+
+  if (options.json) {
+    runJson(options);
+    return;
+  }
+
+  let installation: Installation | null;
+  try {
+    installation = resolveInstallation(options.product, options.userDataDir);
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : String(e));
+    process.exitCode = EXIT_NOT_FOUND;
+    return;
+  }
+
+  if (options.listInstallations) {
+    listInstallations(installation);
+    return;
+  }
+
+  if (installation) {
+    console.log(`Installation: ${describeInstallation(installation)}`);
+    const others = options.product || options.userDataDir ? [] : detectInstallations().slice(1);
+    if (others.length > 0) {
+      console.log(`  Also found: ${others.map(describeInstallation).join(', ')}. Choose with --product or --user-data-dir.`);
+    }
+  }
+
+  if (options.listBackups) {
+    const all = getAllStateVscdbPaths(installation);
+    let total = 0;
+    for (const { path: filePath, label } of all) {
+      const backups = listBackups(filePath);
+      if (backups.length === 0) continue;
+      console.log(`\n${label}:`);
+      console.log(`  Path: ${filePath}`);
+      for (const b of backups) {
+        console.log(`  ${b.id.padEnd(32)} ${b.sizeMb.toFixed(2).padStart(10)} MB`);
+      }
+      total += backups.length;
+    }
+    console.log(total === 0 ? 'No backups found.' : `\n${total} backup(s). Restore with: --restore <ID>`);
+    return;
+  }
+
+  if (options.restoreId) {
+    if (!restoreBackup(installation, options.restoreId, options.keepBackups)) process.exitCode = EXIT_ERROR;
+    return;
+  }
 
   if (options.countCategories) {
-    const globalPath = getGlobalStatePath();
+    const globalPath = getGlobalStatePath(installation);
     if (!globalPath) {
       console.log('Global state.vscdb not found. Cannot show counts.');
+      process.exitCode = EXIT_NOT_FOUND;
+      return;
+    }
+    printCategoryCounts(globalPath);
+    if (options.record) recordHistory(installation, globalPath);
+    return;
+  }
+
+  if (options.trend) {
+    const globalPath = getGlobalStatePath(installation);
+    if (!globalPath) {
+      console.log('Global state.vscdb not found. Cannot show the trend.');
+      process.exitCode = EXIT_NOT_FOUND;
+      return;
+    }
+    trendReport(globalPath, options.thresholdMb);
+    return;
+  }
+
+  if (options.diff) {
+    const [oldSource, newSource] = options.diff;
+    const oldPath = resolveDiffSource(installation, oldSource);
+    const newPath = resolveDiffSource(installation, newSource);
+    if (!oldPath || !newPath) {
+      const missing = [oldPath ? null : oldSource, newPath ? null : newSource].filter(Boolean).join(', ');
+      console.log(`Not found: ${missing}. Use a state.vscdb path, a backup ID from --list-backups, or "global".`);
+      process.exitCode = EXIT_NOT_FOUND;
       return;
     }
-    countCategories(globalPath);
+    try {
+      diffReport(oldPath, newPath, options.familyDepth);
+    } catch (e) {
+      console.error('Diff failed:', e instanceof Error ? e.message : String(e));
+      process.exitCode = EXIT_ERROR;
+    }
     return;
   }
 
   if (options.checkIntegrity) {
     if (options.globalOnlyIntegrity) {
-      const globalPath = getGlobalStatePath();
+      const globalPath = getGlobalStatePath(installation);
       if (!globalPath) {
         console.log('Global state.vscdb not found. Cannot check integrity.');
+        process.exitCode = EXIT_NOT_FOUND;
         return;
       }
-      checkIntegrity(globalPath, 'Global state.vscdb');
+      if (!checkIntegrity(globalPath, 'Global state.vscdb', true)) process.exitCode = EXIT_INTEGRITY_FAILED;
     } else {
-      const all = getAllStateVscdbPaths();
+      const all = getAllStateVscdbPaths(installation);
       if (all.length === 0) {
         console.log('No state.vscdb found.');
+        process.exitCode = EXIT_NOT_FOUND;
         return;
       }
+      const globalPath = getGlobalStatePath(installation);
       let okCount = 0;
       for (const { path: filePath, label } of all) {
-        if (checkIntegrity(filePath, label)) okCount++;
+        if (checkIntegrity(filePath, label, filePath === globalPath)) okCount++;
       }
+      if (okCount < all.length) process.exitCode = EXIT_INTEGRITY_FAILED;
       console.log(`\n✅ Integrity check complete: ${okCount}/${all.length} database(s) passed.`);
     }
     return;
   }
 
-  if (options.analyze) {
-    const globalPath = getGlobalStatePath();
+  if (options.repair) {
+    const globalPath = getGlobalStatePath(installation);
     if (!globalPath) {
-      console.log('Global state.vscdb not found. Cannot analyze.');
+      console.log('Global state.vscdb not found. Nothing to repair.');
+      process.exitCode = EXIT_NOT_FOUND;
+      return;
+    }
+    if (!printRepairDatabase(globalPath, options.keepBackups)) process.exitCode = EXIT_ERROR;
+    return;
+  }
+
+  if (options.interactive) {
+    const globalPath = getGlobalStatePath(installation);
+    if (!globalPath) {
+      console.log('Global state.vscdb not found. Nothing to prune.');
+      process.exitCode = EXIT_NOT_FOUND;
       return;
     }
-    analyzeGlobalStateVscdb(globalPath);
-    if (options.deleteKeysPattern) {
-      console.log('\n--- Deleting keys by pattern ---');
-      deleteKeysAndVacuum(globalPath, options.deleteKeysPattern, options.deleteTable, options.keepLast);
+    if (!process.stdin.isTTY) {
+      console.error('--interactive needs a terminal. Use --delete-keys (with --yes) in scripts.');
+      process.exitCode = EXIT_ERROR;
+      return;
     }
+    runInteractive(globalPath, options.keepBackups, options.dryRun, options.archiveDir);
     return;
   }
 
-  console.log('Pruning state.vscdb files...');
-  console.log(`Options: workspace=${options.workspace}, global=${options.global}, threshold=${options.thresholdMb}MB\n`);
+  if (options.pruneSessions) {
+    const globalPath = getGlobalStatePath(installation);
+    if (!globalPath) {
+      console.log('Global state.vscdb not found. Cannot prune sessions.');
+      process.exitCode = EXIT_NOT_FOUND;
+      return;
+    }
+    if (options.keepSessions == null && !options.olderThan) {
+      console.error('--prune-sessions needs --keep-sessions N and/or --older-than AGE.');
+      process.exitCode = EXIT_ERROR;
+      return;
+    }
+    try {
+      printPruneSessions(globalPath, options.keepSessions, options.olderThan, options.keepBackups, options.dryRun, options.archiveDir);
+    } catch (e) {
+      console.error(e instanceof Error ? e.message : String(e));
+      process.exitCode = EXIT_ERROR;
+    }
+    return;
+  }
 
-  let prunedCount = 0;
-  let totalSavedMb = 0;
+  if (options.deleteOrphans || (options.findOrphans && !options.analyze)) {
+    const globalPath = getGlobalStatePath(installation);
+    if (!globalPath) {
+      console.log('Global state.vscdb not found. Cannot check for orphans.');
+      process.exitCode = EXIT_NOT_FOUND;
+      return;
+    }
+    try {
+      if (options.deleteOrphans) printDeleteOrphans(globalPath, options.keepBackups, options.dryRun, options.archiveDir);
+      else printOrphanReport(withDatabase(globalPath, findOrphans, true));
+    } catch (e) {
+      console.error(e instanceof Error ? e.message : String(e));
+      process.exitCode = EXIT_ERROR;
+    }
+    return;
+  }
 
-  if (options.workspace) {
-    // Option 2: prune all state.vscdb (project + workspaceStorage + global)
-    const all = getAllStateVscdbPaths();
-    if (all.length === 0) {
-      console.log('No state.vscdb found (checked project .vscode/.cursor, workspaceStorage, and global).');
-    } else {
-      for (const { path: filePath, label } of all) {
-        const beforeMb = getFileSizeMb(filePath);
-        if (pruneDatabase(filePath, label, options.thresholdMb)) {
-          prunedCount++;
-          totalSavedMb += beforeMb - getFileSizeMb(filePath);
-        }
+  if (options.deleteKeysPattern) {
+    const globalPath = getGlobalStatePath(installation);
+    if (!globalPath) {
+      console.log('Global state.vscdb not found. Cannot delete keys.');
+      process.exitCode = EXIT_NOT_FOUND;
+      return;
+    }
+    if (options.analyze) {
+      analyzeGlobalStateVscdb(globalPath, options.findOrphans, options.familyDepth);
+      if (options.record) recordHistory(installation, globalPath);
+    }
+    if (options.dryRun) {
+      previewDeleteKeys(globalPath, options.deleteKeysPattern, options.deleteTable, options.keepLast, options.olderThan);
+      return;
+    }
+    if (options.keepLast == null && !options.olderThan && !options.yes) {
+      // Without --keep-last / --older-than every matching key goes: ask in a terminal, require --yes anywhere else.
+      const what = `every key matching "${options.deleteKeysPattern}" in ${options.deleteTable}`;
+      if (!process.stdin.isTTY) {
+        console.error(`Refusing to delete ${what} without --yes (not running in a terminal). Nothing was changed.`);
+        process.exitCode = EXIT_ERROR;
+        return;
       }
+      if (!promptYesNo(`Delete ${what}?`)) {
+        console.log('Cancelled. Nothing was changed.');
+        return;
+      }
+    }
+    console.log('\n--- Deleting keys by pattern ---');
+    try {
+      const result = deleteKeysAndVacuum(
+        globalPath,
+        options.deleteKeysPattern,
+        options.deleteTable,
+        options.keepLast,
+        options.olderThan,
+        options.keepBackups,
+        options.archiveDir
+      );
+      if (result.backupId) console.log(`\nFreed: ${((result.beforeBytes - result.afterBytes) / (1024 * 1024)).toFixed(2)} MB`);
+    } catch (e) {
+      console.error(e instanceof Error ? e.message : String(e));
+      process.exitCode = EXIT_ERROR;
+    }
+    return;
+  }
+
+  if (options.discoverKeys) {
+    const globalPath = getGlobalStatePath(installation);
+    if (!globalPath) {
+      console.log('Global state.vscdb not found. Cannot discover keys.');
+      process.exitCode = EXIT_NOT_FOUND;
+      return;
     }
+    discoverKeys(globalPath, options.familyDepth);
+    return;
   }
 
-  if (options.global && !options.workspace) {
-    // Option 3: prune global only
-    const globalPath = getGlobalStatePath();
-    if (globalPath) {
-      if (pruneDatabase(globalPath, 'Global state.vscdb', options.thresholdMb)) {
-        prunedCount++;
-        totalSavedMb += 0; // already reported in pruneDatabase
+  if (options.fieldSizes || options.slimPattern) {
+    const globalPath = getGlobalStatePath(installation);
+    if (!globalPath) {
+      console.log('Global state.vscdb not found. Cannot look inside its values.');
+      process.exitCode = EXIT_NOT_FOUND;
+      return;
+    }
+    try {
+      if (options.fieldSizes) {
+        printFieldSizes(globalPath, options.deleteTable, options.fieldSizes, options.slimFields, options.maxFieldKb);
+      } else if (options.slimPattern) {
+        printSlimKeys(
+          globalPath,
+          options.slimPattern,
+          options.deleteTable,
+          options.slimFields,
+          options.maxFieldKb,
+          options.keepBackups,
+          options.dryRun,
+          options.archiveDir
+        );
       }
-    } else {
-      console.log('Global state.vscdb: Not found (e.g. ' + (process.env.APPDATA || '') + '\\Cursor\\User\\globalStorage\\state.vscdb)');
+    } catch (e) {
+      console.error(e instanceof Error ? e.message : String(e));
+      process.exitCode = EXIT_ERROR;
+    }
+    return;
+  }
+
+  if (options.exportSessions) {
+    const globalPath = getGlobalStatePath(installation);
+    if (!globalPath) {
+      console.log('Global state.vscdb not found. Cannot export conversations.');
+      process.exitCode = EXIT_NOT_FOUND;
+      return;
+    }
+    try {
+      printExportSessions(globalPath, options.exportSessions);
+    } catch (e) {
+      console.error(e instanceof Error ? e.message : String(e));
+      process.exitCode = EXIT_ERROR;
+    }
+    return;
+  }
+
+  if (options.targetSizeMb != null) {
+    const globalPath = getGlobalStatePath(installation);
+    if (!globalPath) {
+      console.log('Global state.vscdb not found. Cannot shrink.');
+      process.exitCode = EXIT_NOT_FOUND;
+      return;
+    }
+    try {
+      printShrinkToTargetSize(globalPath, options.targetSizeMb, options.priority, options.keepBackups, options.dryRun, options.archiveDir);
+    } catch (e) {
+      console.error(e instanceof Error ? e.message : String(e));
+      process.exitCode = EXIT_ERROR;
+    }
+    return;
+  }
+
+  if (options.applyPolicy) {
+    if (getAllStateVscdbPaths(installation).length === 0) {
+      console.log('No state.vscdb found (checked project .vscode/.cursor, workspaceStorage, and global).');
+      process.exitCode = EXIT_NOT_FOUND;
+      return;
+    }
+    try {
+      printApplyPolicy(installation, options.applyPolicy, options.keepBackups, options.dryRun, options.archiveDir);
+    } catch (e) {
+      console.error(e instanceof Error ? e.message : String(e));
+      process.exitCode = EXIT_ERROR;
+    }
+    return;
+  }
+
+  if (options.cleanCaches) {
+    if (!installation) {
+      console.log(`No editor installation found under ${getAppDataRoots().join(', ')}. Use --user-data-dir <path>.`);
+      process.exitCode = EXIT_NOT_FOUND;
+      return;
+    }
+    try {
+      cleanCaches(installation, options.cleanCaches, options.dryRun);
+    } catch (e) {
+      console.error(e instanceof Error ? e.message : String(e));
+      process.exitCode = EXIT_ERROR;
+    }
+    return;
+  }
+
+  if (options.cleanWorkspaces) {
+    if (getWorkspaceStorageEntries(installation).length === 0) {
+      console.log('No workspaceStorage state.vscdb found. Nothing to clean.');
+      process.exitCode = EXIT_NOT_FOUND;
+      return;
+    }
+    try {
+      cleanWorkspaces(installation, options.olderThan, options.yes && !options.dryRun);
+    } catch (e) {
+      console.error(e instanceof Error ? e.message : String(e));
+      process.exitCode = EXIT_ERROR;
+    }
+    return;
+  }
+
+  if (options.analyzeWorkspaces) {
+    if (getWorkspaceStorageEntries(installation).length === 0) {
+      console.log('No workspaceStorage state.vscdb found. Cannot analyze workspaces.');
+      process.exitCode = EXIT_NOT_FOUND;
+      return;
+    }
+    analyzeWorkspaces(installation);
+    return;
+  }
+
+  if (options.analyze) {
+    const globalPath = getGlobalStatePath(installation);
+    if (!globalPath) {
+      console.log('Global state.vscdb not found. Cannot analyze.');
+      process.exitCode = EXIT_NOT_FOUND;
+      return;
     }
+    analyzeGlobalStateVscdb(globalPath, options.findOrphans, options.familyDepth);
+    if (options.record) recordHistory(installation, globalPath);
+    return;
   }
 
+  console.log('Pruning state.vscdb files...');
+  console.log(`Options: workspace=${options.workspace}, global=${options.global}, threshold=${options.thresholdMb}MB\n`);
+
+  const results = runPrune(installation, options.workspace ? 'all' : 'global', options.thresholdMb, options.keepBackups);
+  if (results.length === 0) process.exitCode = EXIT_NOT_FOUND;
+  const prunedCount = results.filter((r) => r.pruned).length;
+  const totalSavedMb = results.reduce((sum, r) => sum + (r.beforeBytes - r.afterBytes), 0) / (1024 * 1024);
+  if (results.some((r) => r.error)) process.exitCode = EXIT_ERROR;
+
   console.log(`\n✅ Pruning complete. ${prunedCount} database(s) pruned.`);
   if (totalSavedMb > 0) {
     console.log(`   Total space reclaimed: ${totalSavedMb.toFixed(2)} MB`);
   }
   console.log('\nNote: All Cursor/VS Code settings are preserved. VACUUM only reclaims free space inside the file.');
   if (prunedCount > 0 && totalSavedMb < 50) {
-    console.log('If savings were small, the DB is mostly active data. For larger savings use option 1 or 4 (clear caches).');
+    console.log('If savings were small, the DB is mostly active data. For larger savings use option 1 or 4 (or --clean-caches full / light).');
+  }
+}
+
+/** Which databases a VACUUM run covers: every state.vscdb (--workspace, the default) or only the global one (--global). */
+type PruneScope = 'all' | 'global';
+
+/** VACUUM the databases in scope that are at least thresholdMb. Returns nothing (after reporting it) if none exists. */
+function runPrune(
+  installation: Installation | null,
+  scope: PruneScope,
+  thresholdMb: number,
+  keepBackups: number,
+  onProgress: ProgressCallback = logProgress
+): PruneResult[] {
+  if (scope === 'all') {
+    // Option 2: prune all state.vscdb (project + workspaceStorage + global)
+    const all = getAllStateVscdbPaths(installation);
+    if (all.length === 0) onProgress('No state.vscdb found (checked project .vscode/.cursor, workspaceStorage, and global).');
+    return all.map(({ path: filePath, label }) => pruneDatabase(filePath, label, thresholdMb, keepBackups, onProgress));
+  }
+  // Option 3: prune global only
+  const globalPath = getGlobalStatePath(installation);
+  if (!globalPath) {
+    onProgress('Global state.vscdb: Not found.');
+    return [];
+  }
+  return [pruneDatabase(globalPath, 'Global state.vscdb', thresholdMb, keepBackups, onProgress)];
+}
+
+/*
+ * Library API: the operations above as functions that return typed results instead of printing, for tools that import
+ * this file (e.g. `import { analyzeDatabase } from './prune-state-vscdb'`). Progress lines go to onProgress, if given;
+ * nothing is written to the console. Failures that stop an operation (database in use, backup failed) are thrown;
+ * per-database errors of the multi-database functions are returned in each result's error field.
+ */
+
+export { NotFoundError };
+
+export type {
+  Installation,
+  DbFileSizes,
+  GlobalAnalysis,
+  TableAnalysis,
+  TopKey,
+  KeyFamily,
+  OrphanReport,
+  KeyRow,
+  CategoryCount,
+  DatabaseDiff,
+  TableDiff,
+  CategoryDiff,
+  ChangeTotals,
+  KeyChange,
+  IntegrityResult,
+  PruneResult,
+  PruneScope,
+  DeleteResult,
+  SessionPruneResult,
+  ComposerSession,
+  OrphanDeleteResult,
+  PolicyResult,
+  PolicyRuleResult,
+  TargetSizeResult,
+  TargetSizeStep,
+  SlimResult,
+  SlimStats,
+  RepairResult,
+  SalvageResult,
+  ExportResult,
+  TableName,
+};
+
+/** Progress sink of library calls without onProgress: they print nothing. */
+const silent: ProgressCallback = () => {};
+
+/** Which editor profile a library call works on; the default is the first detected one, Cursor first. */
+export interface InstallationOptions {
+  /** cursor, code, code-insiders or vscodium. */
+  product?: string;
+  /** A profile folder (containing User/), e.g. one passed to the editor's --user-data-dir. */
+  userDataDir?: string;
+}
+
+export interface DatabaseInfo {
+  path: string;
+  label: string;
+  kind: 'project' | 'workspace' | 'global';
+  sizes: DbFileSizes;
+}
+
+export interface Discovery {
+  /** The installation the other calls use with the same options; null if none was found. */
+  installation: Installation | null;
+  installations: Installation[];
+  databases: DatabaseInfo[];
+}
+
+/** Every state.vscdb of the chosen installation (project, workspaceStorage, global) with its size. Read-only. */
+export function discoverDatabases(options: InstallationOptions = {}): Discovery {
+  const installation = resolveInstallation(options.product ?? null, options.userDataDir ?? null);
+  const globalPath = getGlobalStatePath(installation);
+  const workspacePaths = new Set(getWorkspaceStorageEntries(installation).map((e) => e.statePath));
+  const databases = getAllStateVscdbPaths(installation).map(({ path: filePath, label }): DatabaseInfo => ({
+    path: filePath,
+    label,
+    kind: filePath === globalPath ? 'global' : workspacePaths.has(filePath) ? 'workspace' : 'project',
+    sizes: getDbFileSizes(filePath),
+  }));
+  return { installation, installations: detectInstallations(), databases };
+}
+
+/** Tables, top keys, key families and (with includeOrphans) orphaned rows of one database. Read-only. */
+export function analyzeDatabase(
+  filePath: string,
+  options: { includeOrphans?: boolean; topN?: number; familyDepth?: number } = {}
+): GlobalAnalysis {
+  return withDatabase(
+    filePath,
+    (db) => collectAnalysis(db, options.includeOrphans ?? false, options.topN ?? 50, options.familyDepth ?? DEFAULT_FAMILY_DEPTH),
+    true
+  );
+}
+
+/** Row count and value bytes of each known category (bubbleId, checkpointId, ...). Read-only. */
+export function countCategories(filePath: string): CategoryCount[] {
+  return withDatabase(filePath, collectCategoryCounts, true);
+}
+
+/**
+ * What changed between two snapshots of a state.vscdb (e.g. a backup and the live file): added, removed, grown and
+ * shrunk keys per table, category and key family, and the topN largest changes. Read-only on both files.
+ */
+export function diffDatabases(oldPath: string, newPath: string, options: { familyDepth?: number; topN?: number } = {}): DatabaseDiff {
+  return collectDiff(oldPath, newPath, options.familyDepth ?? DEFAULT_FAMILY_DEPTH, options.topN ?? 30);
+}
+
+/** quick_check / integrity_check of every state.vscdb, or only the global one. Read-only. */
+export function checkDatabases(options: InstallationOptions & { globalOnly?: boolean } = {}): IntegrityResult[] {
+  const installation = resolveInstallation(options.product ?? null, options.userDataDir ?? null);
+  const globalPath = getGlobalStatePath(installation);
+  const targets = options.globalOnly
+    ? (globalPath ? [{ path: globalPath, label: 'Global state.vscdb' }] : [])
+    : getAllStateVscdbPaths(installation);
+  return targets.map(({ path: filePath, label }) => collectIntegrity(filePath, label));
+}
+
+/** VACUUM (after a backup) every database in scope of at least thresholdMb. An empty result means none was found. */
+export function pruneDatabases(
+  options: InstallationOptions & { scope?: PruneScope; thresholdMb?: number; keepBackups?: number; onProgress?: ProgressCallback } = {}
+): PruneResult[] {
+  const installation = resolveInstallation(options.product ?? null, options.userDataDir ?? null);
+  return runPrune(
+    installation,
+    options.scope ?? 'all',
+    options.thresholdMb ?? 50,
+    options.keepBackups ?? DEFAULT_KEEP_BACKUPS,
+    options.onProgress ?? silent
+  );
+}
+
+/**
+ * Delete the keys matching a LIKE pattern (all, all but the last keepLast, and/or those older than olderThan), after a
+ * backup, then VACUUM. Unlike the CLI it does not ask for confirmation. Throws if the database is in use.
+ */
+export function deleteKeys(
+  filePath: string,
+  pattern: string,
+  options: {
+    table?: TableName;
+    keepLast?: number;
+    olderThan?: Date;
+    dryRun?: boolean;
+    keepBackups?: number;
+    archiveDir?: string;
+    onProgress?: ProgressCallback;
+  } = {}
+): DeleteResult {
+  if (options.keepLast != null && !(Number.isInteger(options.keepLast) && options.keepLast > 0)) {
+    throw new Error(`keepLast must be a whole number greater than 0, got ${options.keepLast}.`);
+  }
+  const table = options.table ?? 'ItemTable';
+  if (!ALLOWED_TABLES.includes(table)) throw new Error(`Unknown table "${table}". Use ${ALLOWED_TABLES.join(' or ')}.`);
+  return deleteKeysAndVacuum(
+    filePath,
+    pattern,
+    table,
+    options.keepLast ?? null,
+    options.olderThan ?? null,
+    options.keepBackups ?? DEFAULT_KEEP_BACKUPS,
+    options.archiveDir ?? null,
+    options.dryRun ?? false,
+    options.onProgress ?? silent
+  );
+}
+
+/**
+ * Delete whole Composer sessions (composerData, bubbles, checkpoints, agentKv rows) beyond the keepSessions most recent
+ * and/or older than olderThan, and drop them from the sidebar list, after a backup, then VACUUM. Throws if the database is in use.
+ */
+export function pruneComposerSessions(
+  filePath: string,
+  options: { keepSessions?: number; olderThan?: Date; dryRun?: boolean; keepBackups?: number; archiveDir?: string; onProgress?: ProgressCallback } = {}
+): SessionPruneResult {
+  if (options.keepSessions != null && !(Number.isInteger(options.keepSessions) && options.keepSessions > 0)) {
+    throw new Error(`keepSessions must be a whole number greater than 0, got ${options.keepSessions}.`);
+  }
+  if (options.keepSessions == null && !options.olderThan) throw new Error('Give keepSessions and/or olderThan.');
+  return pruneSessions(
+    filePath,
+    options.keepSessions ?? null,
+    options.olderThan ?? null,
+    options.keepBackups ?? DEFAULT_KEEP_BACKUPS,
+    options.dryRun ?? false,
+    options.archiveDir ?? null,
+    options.onProgress ?? silent
+  );
+}
+
+/** Delete the cursorDiskKV rows whose Composer session is gone (see analyzeDatabase's orphans), after a backup, then VACUUM. */
+export function deleteOrphanRows(
+  filePath: string,
+  options: { dryRun?: boolean; keepBackups?: number; archiveDir?: string; onProgress?: ProgressCallback } = {}
+): OrphanDeleteResult {
+  return deleteOrphans(
+    filePath,
+    options.keepBackups ?? DEFAULT_KEEP_BACKUPS,
+    options.dryRun ?? false,
+    options.archiveDir ?? null,
+    options.onProgress ?? silent
+  );
+}
+
+/**
+ * Apply a retention policy file (see --apply-policy) to the databases of the chosen installation. Returns one result
+ * per database in the policy's scopes; an invalid policy is thrown.
+ */
+export function applyRetentionPolicy(
+  policyPath: string,
+  options: InstallationOptions & { dryRun?: boolean; keepBackups?: number; archiveDir?: string; onProgress?: ProgressCallback } = {}
+): PolicyResult[] {
+  const installation = resolveInstallation(options.product ?? null, options.userDataDir ?? null);
+  return applyPolicy(
+    installation,
+    policyPath,
+    options.keepBackups ?? DEFAULT_KEEP_BACKUPS,
+    options.dryRun ?? false,
+    options.archiveDir ?? null,
+    options.onProgress ?? silent
+  );
+}
+
+/**
+ * Shrink a database to about targetMb by deleting the oldest rows of the priority categories, in order, after a backup,
+ * then VACUUM. If the target cannot be reached, fits is false and nothing is changed.
+ */
+export function shrinkDatabase(
+  filePath: string,
+  targetMb: number,
+  options: { priority?: string[]; dryRun?: boolean; keepBackups?: number; archiveDir?: string; onProgress?: ProgressCallback } = {}
+): TargetSizeResult {
+  if (!(targetMb > 0)) throw new Error(`targetMb must be greater than 0, got ${targetMb}.`);
+  return shrinkToTargetSize(
+    filePath,
+    targetMb,
+    options.priority ?? DEFAULT_TARGET_PRIORITY,
+    options.keepBackups ?? DEFAULT_KEEP_BACKUPS,
+    options.dryRun ?? false,
+    options.archiveDir ?? null,
+    options.onProgress ?? silent
+  );
+}
+
+/**
+ * Empty the given fields (default: the embedded payloads --slim empties) in the JSON values of the keys matching a LIKE
+ * pattern and, with maxFieldKb, truncate other long strings; after a backup, then VACUUM.
+ */
+export function slimValues(
+  filePath: string,
+  pattern: string,
+  options: {
+    table?: TableName;
+    fields?: string[];
+    maxFieldKb?: number;
+    dryRun?: boolean;
+    keepBackups?: number;
+    archiveDir?: string;
+    onProgress?: ProgressCallback;
+  } = {}
+): SlimResult {
+  if (options.maxFieldKb != null && !(Number.isInteger(options.maxFieldKb) && options.maxFieldKb > 0)) {
+    throw new Error(`maxFieldKb must be a whole number greater than 0, got ${options.maxFieldKb}.`);
   }
+  const fields = options.fields ?? DEFAULT_SLIM_FIELDS;
+  if (fields.length === 0 && options.maxFieldKb == null) throw new Error('Give fields to empty and/or maxFieldKb.');
+  const table = options.table ?? 'cursorDiskKV';
+  if (!ALLOWED_TABLES.includes(table)) throw new Error(`Unknown table "${table}". Use ${ALLOWED_TABLES.join(' or ')}.`);
+  return slimKeys(
+    filePath,
+    pattern,
+    table,
+    fields,
+    options.maxFieldKb ?? null,
+    options.keepBackups ?? DEFAULT_KEEP_BACKUPS,
+    options.dryRun ?? false,
+    options.archiveDir ?? null,
+    options.onProgress ?? silent
+  );
+}
+
+/** Rebuild a damaged database from its readable rows (see --repair). A healthy database is left alone. */
+export function repairDatabaseFile(
+  filePath: string,
+  options: { keepBackups?: number; onProgress?: ProgressCallback } = {}
+): RepairResult {
+  return repairDatabase(filePath, options.keepBackups ?? DEFAULT_KEEP_BACKUPS, options.onProgress ?? silent);
+}
+
+/** Export every Composer conversation to dir as Markdown and JSON, merged with earlier exports. Read-only on the database. */
+export function exportComposerSessions(filePath: string, dir: string): ExportResult {
+  return exportSessions(filePath, dir);
+}
+
+type JsonCommand = 'analyze' | 'analyze-workspaces' | 'count-categories' | 'discover-keys' | 'trend' | 'diff' | 'check-integrity' | 'prune';
+
+/**
+ * The --json document. Stable contract for scripts and dashboards: sizes are in bytes, fields are only added within a
+ * schemaVersion, and exitCode matches the process exit code (see EXIT_* constants).
+ */
+interface JsonReport {
+  schemaVersion: number;
+  tool: 'prune-state-vscdb';
+  command: JsonCommand;
+  generatedAt: string;
+  exitCode: number;
+  errors: string[];
+  /** Editor profile the command worked on; null if none was found. */
+  installation: Installation | null;
+  result: unknown;
+}
+
+function orphanReportToJson(report: OrphanReport) {
+  return {
+    liveSessions: report.liveSessions,
+    categories: [...report.orphans].map(([category, rows]) => ({
+      category,
+      count: rows.length,
+      bytes: rows.reduce((sum, r) => sum + r.bytes, 0),
+    })),
+    unattributed: [...report.unattributed].map(([category, u]) => ({ category, ...u })),
+  };
+}
+
+/** Run analyze / analyze-workspaces / count-categories / discover-keys / trend / diff / check-integrity / prune and print exactly one JSON document on stdout. */
+function runJson(options: PruneOptions): void {
+  // Keep stdout a single JSON document: progress lines from the shared helpers go to stderr.
+  const toStderr: ProgressCallback = (message) => console.error(message);
+  const errors: string[] = [];
+  let installation: Installation | null = null;
+  let result: unknown = null;
+  let exitCode = EXIT_OK;
+  const command: JsonCommand = options.countCategories
+    ? 'count-categories'
+    : options.discoverKeys
+      ? 'discover-keys'
+      : options.trend
+        ? 'trend'
+        : options.diff
+          ? 'diff'
+          : options.checkIntegrity
+            ? 'check-integrity'
+            : options.analyzeWorkspaces
+              ? 'analyze-workspaces'
+              : options.analyze
+                ? 'analyze'
+                : 'prune';
+
+  try {
+    installation = resolveInstallation(options.product, options.userDataDir);
+    if (
+      options.deleteKeysPattern ||
+      options.pruneSessions ||
+      options.deleteOrphans ||
+      options.cleanWorkspaces ||
+      options.cleanCaches ||
+      options.fieldSizes ||
+      options.slimPattern ||
+      options.applyPolicy ||
+      options.targetSizeMb != null ||
+      options.interactive ||
+      options.exportSessions ||
+      options.listBackups ||
+      options.restoreId ||
+      options.repair ||
+      options.listInstallations
+    ) {
+      throw new Error('--json supports --analyze, --analyze-workspaces, --count-categories, --discover-keys, --trend, --diff, --check-integrity and VACUUM pruning only.');
+    }
+    if (options.diff) {
+      const [oldSource, newSource] = options.diff;
+      const oldPath = resolveDiffSource(installation, oldSource);
+      const newPath = resolveDiffSource(installation, newSource);
+      if (oldPath && newPath) {
+        result = diffDatabases(oldPath, newPath, { familyDepth: options.familyDepth });
+      } else {
+        exitCode = EXIT_NOT_FOUND;
+        const missing = [oldPath ? null : oldSource, newPath ? null : newSource].filter(Boolean).join(', ');
+        errors.push(`Not found: ${missing}. Use a state.vscdb path, a backup ID from --list-backups, or "global".`);
+      }
+    } else if (command === 'check-integrity') {
+      const databases = checkDatabases({ product: options.product ?? undefined, userDataDir: options.userDataDir ?? undefined, globalOnly: options.globalOnlyIntegrity });
+      if (databases.length === 0) {
+        exitCode = EXIT_NOT_FOUND;
+        errors.push('No state.vscdb found.');
+      } else {
+        const passed = databases.filter((d) => d.ok).length;
+        result = { databases, passed, total: databases.length };
+        for (const d of databases) if (d.error) errors.push(`${d.label}: ${d.error}`);
+        if (passed < databases.length) exitCode = EXIT_INTEGRITY_FAILED;
+      }
+    } else if (command === 'analyze-workspaces') {
+      const workspaces = collectWorkspaceAnalyses(installation);
+      if (workspaces.length === 0) {
+        exitCode = EXIT_NOT_FOUND;
+        errors.push('No workspaceStorage state.vscdb found.');
+      }
+      for (const w of workspaces) {
+        const errs = [w.error, ...(w.analysis?.tableDetails ?? []).map((t) => t.error && `${t.table}: ${t.error}`)];
+        for (const err of errs) if (err) errors.push(`${w.folder ?? w.hash}: ${err}`);
+      }
+      result = { workspaces, totalBytes: workspaces.reduce((sum, w) => sum + w.sizeBytes, 0) };
+      if (workspaces.length > 0 && errors.length > 0) exitCode = EXIT_ERROR;
+    } else if (command === 'prune') {
+      const databases = pruneDatabases({
+        product: options.product ?? undefined,
+        userDataDir: options.userDataDir ?? undefined,
+        scope: options.workspace ? 'all' : 'global',
+        thresholdMb: options.thresholdMb,
+        keepBackups: options.keepBackups,
+        onProgress: toStderr,
+      });
+      for (const d of databases) if (d.error) errors.push(`${d.label}: ${d.error}`);
+      result = {
+        thresholdMb: options.thresholdMb,
+        databases,
+        prunedCount: databases.filter((d) => d.pruned).length,
+        totalSavedBytes: databases.reduce((sum, d) => sum + (d.beforeBytes - d.afterBytes), 0),
+      };
+      exitCode = errors.length > 0 ? EXIT_ERROR : databases.length === 0 ? EXIT_NOT_FOUND : EXIT_OK;
+    } else {
+      const globalPath = getGlobalStatePath(installation);
+      if (!globalPath) {
+        exitCode = EXIT_NOT_FOUND;
+        errors.push('Global state.vscdb not found.');
+      } else if (command === 'count-categories') {
+        const categories = countCategories(globalPath);
+        for (const c of categories) if (c.error) errors.push(`${c.pattern}: ${c.error}`);
+        const { walBytes, journalBytes, totalBytes } = getDbFileSizes(globalPath);
+        result = { path: globalPath, fileSizeBytes: totalBytes, walBytes, journalBytes, categories };
+        if (errors.length > 0) exitCode = EXIT_ERROR;
+      } else if (command === 'discover-keys') {
+        const families = withDatabase(globalPath, (db) => discoverKeyFamilies(db, options.familyDepth), true);
+        result = { path: globalPath, depth: options.familyDepth, families };
+      } else if (command === 'trend') {
+        result = { historyPath: getHistoryPath(globalPath), thresholdMb: options.thresholdMb, databases: collectTrends(globalPath, options.thresholdMb) };
+      } else {
+        const analysis = analyzeDatabase(globalPath, { includeOrphans: options.findOrphans, familyDepth: options.familyDepth });
+        for (const t of analysis.tableDetails) if (t.error) errors.push(`${t.table}: ${t.error}`);
+        result = { ...analysis, orphans: analysis.orphans ? orphanReportToJson(analysis.orphans) : null };
+        if (errors.length > 0) exitCode = EXIT_ERROR;
+      }
+      if (globalPath && options.record && (command === 'analyze' || command === 'count-categories')) {
+        recordHistory(installation, globalPath, toStderr);
+      }
+    }
+  } catch (e) {
+    errors.push(e instanceof Error ? e.message : String(e));
+    exitCode = e instanceof NotFoundError ? EXIT_NOT_FOUND : EXIT_ERROR;
+  }
+
+  const report: JsonReport = {
+    schemaVersion: JSON_SCHEMA_VERSION,
+    tool: 'prune-state-vscdb',
+    command,
+    generatedAt: new Date().toISOString(),
+    exitCode,
+    errors,
+    installation,
+    result,
+  };
+  process.stdout.write(JSON.stringify(report, null, 2) + '\n');
+  process.exitCode = exitCode;
 }
 
 if (require.main === module) {